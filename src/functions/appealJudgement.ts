@@ -0,0 +1,119 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { recordAudit } from "../lib/audit";
+import { authenticatePlayer } from "../lib/auth";
+import { findJudgement, requireCorrectablePhase } from "../lib/corrections";
+import { jobQueueOutputs, startJob } from "../lib/jobs";
+import { getStorage, Judgement, PreconditionFailedError } from "../lib/storage";
+
+type AppealJudgementRequest = {
+	judgementId: string;
+	reason: string;
+};
+
+// Lets a player contest the judgement of one of their own answers, once per
+// judgement. Depending on the game's appealMode the answer is queued for the
+// judges again or left for the host to review.
+export async function appealJudgement(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { player, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { judgementId, reason } =
+		(await request.json()) as AppealJudgementRequest;
+	if (!judgementId || typeof reason !== "string" || !reason.trim()) {
+		return {
+			status: 400,
+			jsonBody: { error: "judgementId and reason are required" },
+		};
+	}
+
+	const game = await getStorage().games.get(player.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const conflict = requireCorrectablePhase(game, "appeal");
+	if (conflict) {
+		return conflict;
+	}
+
+	// Any member may appeal a judgement of their team's
+	const { judgement, index } = findJudgement(game, judgementId);
+	const member = await getStorage().players.get(game.id, player.playerId);
+	if (
+		!judgement ||
+		(judgement.playerId !== player.playerId &&
+			judgement.playerId !== member?.teamId)
+	) {
+		return { status: 404, jsonBody: { error: "Judgement not found" } };
+	}
+	if (judgement.appeal) {
+		return {
+			status: 409,
+			jsonBody: {
+				error: "This judgement has already been appealed",
+				appeal: judgement.appeal,
+			},
+		};
+	}
+
+	const reevaluate = game.appealMode === "reevaluate";
+	const updated: Judgement = {
+		...judgement,
+		appeal: {
+			reason: reason.trim(),
+			status: reevaluate ? "reevaluating" : "pending",
+			filedAt: new Date().toISOString(),
+		},
+	};
+
+	try {
+		await getStorage().games.replaceListItem(
+			game.id,
+			"judgements",
+			index,
+			updated
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: { error: "The judgements changed, try again" },
+			};
+		}
+		throw error;
+	}
+
+	await recordAudit({
+		gameId: game.id,
+		action: "appealFiled",
+		actor: player.playerId,
+		actorRole: "player",
+		targetId: judgement.id,
+		reason: updated.appeal.reason,
+	});
+
+	if (reevaluate) {
+		await startJob(game.id, "reevaluations", [{ judgementId }], context);
+	}
+
+	return { status: 202, jsonBody: { judgementId, appeal: updated.appeal } };
+}
+
+app.http("appealJudgement", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	extraOutputs: jobQueueOutputs,
+	handler: appealJudgement,
+});
@@ -0,0 +1,61 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeAdmin, createHostToken as signHostToken } from "../lib/auth";
+
+type CreateHostTokenRequest = {
+	hostId: string;
+	gameIds?: string[];
+	eventId?: string;
+	expiresInHours?: number;
+};
+
+const DEFAULT_EXPIRY_HOURS = 24;
+
+// Issues a signed host token. Hosts can always manage the games they create;
+// gameIds and eventId grant access to games created by someone else.
+export async function createHostToken(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { hostId, gameIds, eventId, expiresInHours } =
+		(await request.json()) as CreateHostTokenRequest;
+	if (!hostId) {
+		return { status: 400, jsonBody: { error: "hostId is required" } };
+	}
+
+	const expiresInSeconds = (expiresInHours ?? DEFAULT_EXPIRY_HOURS) * 3600;
+	const token = signHostToken(
+		{ id: hostId, gameIds, eventId },
+		expiresInSeconds
+	);
+
+	return {
+		status: 201,
+		jsonBody: {
+			token,
+			hostId,
+			gameIds,
+			eventId,
+			expiresAt: new Date(
+				Date.now() + expiresInSeconds * 1000
+			).toISOString(),
+		},
+	};
+}
+
+app.http("createHostToken", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: createHostToken,
+});
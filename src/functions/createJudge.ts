@@ -0,0 +1,71 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { v4 as uuid } from "uuid";
+import { authorizeAdmin } from "../lib/auth";
+import {
+	checkJudge,
+	invalidJudgeResponse,
+	JudgeInput,
+	withQuestionIds,
+} from "../lib/judges";
+import { getStorage, Judge } from "../lib/storage";
+
+export async function createJudge(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const input = (await request.json()) as JudgeInput;
+	if (!input || typeof input !== "object") {
+		return invalidJudgeResponse(["The body must be a JSON object"]);
+	}
+	const { judges } = getStorage();
+
+	const now = new Date().toISOString();
+	const judge: Judge = {
+		id: input.id ?? uuid(),
+		theme: input.theme,
+		asst_id: input.asst_id,
+		instructions: input.instructions,
+		questions: withQuestionIds(input.questions),
+		sampleQuestions: input.sampleQuestions
+			? withQuestionIds(input.sampleQuestions)
+			: undefined,
+		promptRules: input.promptRules,
+		disabled: input.disabled ?? false,
+		createdAt: now,
+		updatedAt: now,
+	};
+
+	const invalid = await checkJudge(judge);
+	if (invalid) {
+		return invalid;
+	}
+
+	if (await judges.get(judge.id)) {
+		return {
+			status: 409,
+			jsonBody: { error: `Judge ${judge.id} already exists` },
+		};
+	}
+
+	const createdJudge = await judges.upsert(judge);
+
+	return { status: 201, jsonBody: createdJudge };
+}
+
+app.http("createJudge", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: createJudge,
+});
@@ -1,4 +1,3 @@
-import { CosmosClient } from "@azure/cosmos";
 import {
 	app,
 	HttpRequest,
@@ -7,6 +6,28 @@ import {
 } from "@azure/functions";
 
 import { v4 as uuid } from "uuid";
+import { authenticateHost } from "../lib/auth";
+import { createJoinCode } from "../lib/joinCodes";
+import {
+	DEFAULT_INJECTION_PENALTY_PERCENT,
+	INJECTION_ACTIONS,
+} from "../lib/injection";
+import { parsePromptRules, validatePromptRules } from "../lib/promptRules";
+import { getPracticeRules } from "../lib/practice";
+import { buildJudgePanel, DEFAULT_DISAGREEMENT_THRESHOLD } from "../lib/panel";
+import {
+	DEFAULT_QUESTIONS_PER_ROUND,
+	DEFAULT_ROUNDS,
+	MAX_ROUNDS,
+	selectRoundQuestions,
+} from "../lib/rounds";
+import {
+	Game,
+	getStorage,
+	InjectionAction,
+	TeamRankings,
+} from "../lib/storage";
+import { DEFAULT_TEAM_SIZE, TEAM_RANKINGS } from "../lib/teams";
 
 export async function createNewGame(
 	request: HttpRequest,
@@ -14,52 +35,222 @@ export async function createNewGame(
 ): Promise<HttpResponseInit> {
 	context.log(`Processing request for URL "${request.url}"`);
 
-	const client = new CosmosClient(process.env.COSMOSDB_CONNECTION_STRING);
-	const database = client.database("mini-prompt-quiz");
-	const gameContainer = database.container("games");
-	const judgeContainer = database.container("judges");
+	const { host, denied } = authenticateHost(request);
+	if (denied) {
+		return denied;
+	}
+
+	// Hosts scoped to an event can only create games for that event
+	const eventId = request.query.get("eventId") || host.eventId;
+	if (host.eventId && eventId !== host.eventId) {
+		return {
+			status: 403,
+			jsonBody: { error: "You can only create games for your own event" },
+		};
+	}
+
+	// Optional ?rounds=N&questionsPerRound=M, each round asking its own questions
+	const rounds = parseCount(request.query.get("rounds"), DEFAULT_ROUNDS);
+	const questionsPerRound = parseCount(
+		request.query.get("questionsPerRound"),
+		DEFAULT_QUESTIONS_PER_ROUND
+	);
+	if (!rounds || rounds > MAX_ROUNDS || !questionsPerRound) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: `rounds must be between 1 and ${MAX_ROUNDS} and questionsPerRound a positive number`,
+			},
+		};
+	}
+
+	const { games, judges } = getStorage();
 
-	// Get all judges from the database
-	const allJudgesRes = await judgeContainer.items
-		.query({
-			query: "SELECT * FROM c",
-		})
-		.fetchAll();
+	// Get all judges that are in rotation
+	const allJudges = (await judges.list()).filter((judge) => !judge.disabled);
 
 	// Check if any judges exist
-	if (allJudgesRes.resources.length === 0) {
+	if (allJudges.length === 0) {
 		return { status: 404, body: "No judges found in the database" };
 	}
 
 	// Select a random judge
-	const randomIndex = Math.floor(
-		Math.random() * allJudgesRes.resources.length
+	const randomIndex = Math.floor(Math.random() * allJudges.length);
+	const judge = allJudges[randomIndex];
+
+	// Optional panel: ?panelJudgeIds=a,b&samples=2&aggregation=median
+	const samples = parseCount(request.query.get("samples"), 1);
+	const disagreementThreshold = Number(
+		request.query.get("disagreementThreshold") ??
+			DEFAULT_DISAGREEMENT_THRESHOLD
 	);
-	const judge = allJudgesRes.resources[randomIndex];
+	if (!samples || !(disagreementThreshold >= 0)) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "samples must be a positive number and disagreementThreshold at least 0",
+			},
+		};
+	}
 
-	const gameId = uuid();
-	const judgeQuestions = [...judge.questions]; // Create a copy to avoid modifying the original
-
-	// Select 3 random questions from the judge
-	const selectedQuestions = [];
-	for (let i = 0; i < 3 && judgeQuestions.length > 0; i++) {
-		const questionIndex = Math.floor(Math.random() * judgeQuestions.length);
-		// Pop the question from the array so it doesn't get selected again
-		const selectedQuestion = judgeQuestions.splice(questionIndex, 1)[0];
-		selectedQuestions.push(selectedQuestion);
+	const { panel, error: panelError } = buildJudgePanel(judge, allJudges, {
+		judgeIds: (request.query.get("panelJudgeIds") ?? "")
+			.split(",")
+			.map((id) => id.trim())
+			.filter(Boolean),
+		samples,
+		aggregation: request.query.get("aggregation") ?? "mean",
+		disagreementThreshold,
+	});
+	if (panelError) {
+		return { status: 400, jsonBody: { error: panelError } };
+	}
+
+	// What a player's appeal does: ?appeals=reevaluate, or review by the host
+	const appealMode = request.query.get("appeals") ?? "review";
+	if (appealMode !== "review" && appealMode !== "reevaluate") {
+		return {
+			status: 400,
+			jsonBody: { error: "appeals must be review or reevaluate" },
+		};
+	}
+
+	// Suspected prompt injections: ?injectionAction=flag|penalize|review and
+	// ?injectionPenalty=percent taken off each criterion when penalizing
+	const injectionAction = request.query.get("injectionAction") ?? "flag";
+	const penaltyPercent = Number(
+		request.query.get("injectionPenalty") ??
+			DEFAULT_INJECTION_PENALTY_PERCENT
+	);
+	if (
+		!INJECTION_ACTIONS.includes(injectionAction as InjectionAction) ||
+		!(penaltyPercent >= 0 && penaltyPercent <= 100)
+	) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: `injectionAction must be one of ${INJECTION_ACTIONS.join(
+					", "
+				)} and injectionPenalty between 0 and 100`,
+			},
+		};
+	}
+
+	// Prompt rules such as ?maxPromptLength=500&bannedPhrases=a,b override the
+	// judge's, see lib/promptRules
+	const promptRules = parsePromptRules(request.query);
+	const ruleViolations = validatePromptRules(promptRules);
+	if (ruleViolations.length > 0) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "Invalid prompt rules",
+				violations: ruleViolations,
+			},
+		};
 	}
 
-	const game = {
+	// Practice limits: ?practiceLimit=N runs per player every
+	// practiceWindowSeconds, practiceQuota=N model calls for the whole game
+	// and practiceScoring=false to turn off practice scores
+	const practice = getPracticeRules({});
+	const practiceLimit = parseCount(
+		request.query.get("practiceLimit"),
+		practice.playerLimit
+	);
+	const practiceWindow = parseCount(
+		request.query.get("practiceWindowSeconds"),
+		practice.windowSeconds
+	);
+	const practiceQuota = parseCount(
+		request.query.get("practiceQuota"),
+		practice.gameQuota
+	);
+	if (!practiceLimit || !practiceWindow || !practiceQuota) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "practiceLimit, practiceWindowSeconds and practiceQuota must be positive numbers",
+			},
+		};
+	}
+
+	// Optional ?budget=25 in US dollars; generation stops once it is spent
+	const budget = request.query.has("budget")
+		? Number(request.query.get("budget"))
+		: undefined;
+	if (budget !== undefined && !(budget > 0)) {
+		return {
+			status: 400,
+			jsonBody: { error: "budget must be a positive number of dollars" },
+		};
+	}
+
+	// Teams: ?teams=true, with ?teamSize=N members at most and
+	// ?rankings=separate to rank teams and solo players side by side
+	const teamSize = parseCount(
+		request.query.get("teamSize"),
+		DEFAULT_TEAM_SIZE
+	);
+	const rankings = request.query.get("rankings") ?? "combined";
+	if (!teamSize || !TEAM_RANKINGS.includes(rankings as TeamRankings)) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: `teamSize must be a positive number and rankings one of ${TEAM_RANKINGS.join(
+					", "
+				)}`,
+			},
+		};
+	}
+
+	const gameId = uuid();
+	const roundQuestions = selectRoundQuestions(
+		judge.questions,
+		rounds,
+		questionsPerRound
+	);
+
+	// The game's judge carries every selected question once
+	const selectedQuestions = [...new Set(roundQuestions.flat())];
+
+	const game: Game = {
 		id: gameId,
-		status: "waiting",
+		status: "lobby",
+		hostId: host.id,
+		eventId: eventId || undefined,
+		joinCode: await createJoinCode(games),
 		players: [],
 		judge: {
 			...judge,
 			questions: selectedQuestions,
 		},
+		panel,
+		appealMode,
+		promptRules,
+		budget: budget ? { limit: budget } : undefined,
+		practice: {
+			playerLimit: practiceLimit,
+			windowSeconds: practiceWindow,
+			gameQuota: practiceQuota,
+			allowScoring: request.query.get("practiceScoring") !== "false",
+		},
+		injectionRules: {
+			action: injectionAction as InjectionAction,
+			penaltyPercent,
+		},
+		teams:
+			request.query.get("teams") === "true"
+				? { maxMembers: teamSize, rankings: rankings as TeamRankings }
+				: undefined,
+		rounds: roundQuestions.map((questions, index) => ({
+			number: index + 1,
+			questionIds: questions.map((q) => q.id),
+		})),
+		currentRound: 1,
 	};
 
-	const createdGame = await gameContainer.items.upsert(game);
+	const createdGame = await games.upsert(game);
 
 	if (!createdGame) {
 		return { status: 500, body: "Failed to create game" };
@@ -68,6 +259,15 @@ export async function createNewGame(
 	return { status: 200, body: JSON.stringify(game) };
 }
 
+// Returns undefined for anything but a positive whole number
+function parseCount(value: string | null, fallback: number) {
+	if (!value) {
+		return fallback;
+	}
+	const count = Number(value);
+	return Number.isInteger(count) && count > 0 ? count : undefined;
+}
+
 app.http("createNewGame", {
 	methods: ["GET", "POST"],
 	authLevel: "anonymous",
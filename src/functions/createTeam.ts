@@ -0,0 +1,103 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
+import { getStorage, Player, PreconditionFailedError } from "../lib/storage";
+import {
+	broadcastTeamUpdate,
+	createTeamRecord,
+	isTeam,
+	MAX_TEAM_NAME_LENGTH,
+	moveToTeam,
+	requireTeams,
+	toPublicTeam,
+} from "../lib/teams";
+
+type CreateTeamRequest = {
+	name: string;
+};
+
+// Starts a new team with the player as its first member. A player already
+// in a team leaves it.
+export async function createTeam(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { name: rawName } = (await request.json()) as CreateTeamRequest;
+	const name = typeof rawName === "string" ? rawName.trim() : "";
+	if (!name || name.length > MAX_TEAM_NAME_LENGTH) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: `name must be 1 to ${MAX_TEAM_NAME_LENGTH} characters`,
+			},
+		};
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(identity.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied: conflict } = requireTeams(game);
+	if (conflict) {
+		return conflict;
+	}
+
+	const everyone = await players.listByGame(game.id);
+	const player = everyone.find((p) => p.id === identity.playerId);
+	if (!player) {
+		return { status: 404, jsonBody: { error: "Player not found" } };
+	}
+	if (
+		everyone.some(
+			(p) =>
+				isTeam(p) && p.screenName.toLowerCase() === name.toLowerCase()
+		)
+	) {
+		return {
+			status: 409,
+			jsonBody: { error: `There is already a team called ${name}` },
+		};
+	}
+
+	const team = createTeamRecord(game.id, name, player);
+	await players.upsert(team);
+	let member: Player;
+	try {
+		member = await moveToTeam(player, team.id, context);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: {
+					error: "Your player was changed at the same time, try again",
+				},
+			};
+		}
+		throw error;
+	}
+	await broadcastTeamUpdate(game.id, "created", member, team.id, context);
+
+	return {
+		status: 201,
+		jsonBody: { team: toPublicTeam(team, [member]) },
+	};
+}
+
+app.http("createTeam", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: createTeam,
+});
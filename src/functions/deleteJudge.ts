@@ -0,0 +1,47 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeAdmin } from "../lib/auth";
+import { getStorage, NotFoundError } from "../lib/storage";
+
+// Games keep their own copy of the judge, so deleting one does not affect
+// games that already use it
+export async function deleteJudge(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const judgeId = request.query.get("judgeId");
+	if (!judgeId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing judgeId parameter" },
+		};
+	}
+
+	try {
+		await getStorage().judges.delete(judgeId);
+	} catch (error) {
+		if (error instanceof NotFoundError) {
+			return { status: 404, jsonBody: { error: "Judge not found" } };
+		}
+		throw error;
+	}
+
+	return { status: 204 };
+}
+
+app.http("deleteJudge", {
+	methods: ["DELETE"],
+	authLevel: "anonymous",
+	handler: deleteJudge,
+});
@@ -0,0 +1,60 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeAdmin } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+export async function deleteJudgeQuestion(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const judgeId = request.query.get("judgeId");
+	const questionId = request.query.get("questionId");
+	if (!judgeId || !questionId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing judgeId or questionId parameter" },
+		};
+	}
+
+	const { judges } = getStorage();
+	const judge = await judges.get(judgeId);
+	if (!judge) {
+		return { status: 404, jsonBody: { error: "Judge not found" } };
+	}
+
+	const questions = judge.questions.filter((q) => q.id !== questionId);
+	if (questions.length === judge.questions.length) {
+		return { status: 404, jsonBody: { error: "Question not found" } };
+	}
+	if (questions.length === 0) {
+		return {
+			status: 409,
+			jsonBody: { error: "A judge needs at least one question" },
+		};
+	}
+
+	await judges.upsert({
+		...judge,
+		questions,
+		updatedAt: new Date().toISOString(),
+	});
+
+	return { status: 204 };
+}
+
+app.http("deleteJudgeQuestion", {
+	methods: ["DELETE"],
+	authLevel: "anonymous",
+	handler: deleteJudgeQuestion,
+});
@@ -0,0 +1,91 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import {
+	buildExport,
+	EXPORT_FORMATS,
+	ExportFormat,
+	toCsv,
+	toHtml,
+} from "../lib/export";
+import { getStandings } from "../lib/standings";
+import { getStorage } from "../lib/storage";
+
+// ?gameId=...&format=json|csv|html. Emails are redacted unless
+// redactEmails=false is passed.
+export async function exportGame(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	if (!gameId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId parameter" },
+		};
+	}
+
+	const format = (request.query.get("format") ?? "json") as ExportFormat;
+	if (!EXPORT_FORMATS.includes(format)) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: `format must be one of ${EXPORT_FORMATS.join(", ")}`,
+			},
+		};
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const includeEmails = request.query.get("redactEmails") === "false";
+	const bundle = buildExport(
+		game,
+		await players.listByGame(gameId),
+		await getStandings(gameId),
+		includeEmails
+	);
+
+	const fileName = `game-${gameId}.${format}`;
+	const headers = {
+		"Content-Disposition": `attachment; filename="${fileName}"`,
+	};
+
+	if (format === "csv") {
+		return {
+			status: 200,
+			headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+			body: toCsv(bundle, includeEmails),
+		};
+	}
+
+	if (format === "html") {
+		return {
+			status: 200,
+			headers: { ...headers, "Content-Type": "text/html; charset=utf-8" },
+			body: toHtml(bundle),
+		};
+	}
+
+	return { status: 200, headers, jsonBody: bundle };
+}
+
+app.http("exportGame", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: exportGame,
+});
@@ -0,0 +1,48 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+// Appealed judgements of a game, optionally only those with ?status=pending
+export async function getAppeals(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	if (!gameId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId parameter" },
+		};
+	}
+
+	const game = await getStorage().games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const status = request.query.get("status");
+	const appeals = (game.judgements ?? []).filter(
+		(judgement) =>
+			judgement.appeal && (!status || judgement.appeal.status === status)
+	);
+
+	return { status: 200, jsonBody: { gameId, appeals } };
+}
+
+app.http("getAppeals", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getAppeals,
+});
@@ -0,0 +1,45 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+export async function getAuditLog(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	if (!gameId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId parameter" },
+		};
+	}
+
+	const { games, audit } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	return {
+		status: 200,
+		jsonBody: { gameId, entries: await audit.listByGame(gameId) },
+	};
+}
+
+app.http("getAuditLog", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getAuditLog,
+});
@@ -0,0 +1,54 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+// Answers the judge panel disagreed on or that were sent to review as
+// suspected prompt injections, for the host to look over
+export async function getFlaggedJudgements(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	if (!gameId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId parameter" },
+		};
+	}
+
+	const game = await getStorage().games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const flagged = (game.judgements ?? [])
+		.filter((judgement) => judgement.needsReview)
+		.sort((a, b) => (b.scoreStdDev ?? 0) - (a.scoreStdDev ?? 0));
+
+	return {
+		status: 200,
+		jsonBody: {
+			gameId,
+			disagreementThreshold: game.panel?.disagreementThreshold,
+			flagged,
+		},
+	};
+}
+
+app.http("getFlaggedJudgements", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getFlaggedJudgements,
+});
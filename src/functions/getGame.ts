@@ -1,10 +1,16 @@
-import { CosmosClient } from "@azure/cosmos";
 import {
 	app,
 	HttpRequest,
 	HttpResponseInit,
 	InvocationContext,
 } from "@azure/functions";
+import { getGamePhase } from "../lib/gamePhase";
+import { findGame } from "../lib/joinCodes";
+import { getPromptRules } from "../lib/promptRules";
+import { getPromptWindow } from "../lib/promptWindow";
+import { getCurrentRound, getTotalRounds } from "../lib/rounds";
+import { getStorage } from "../lib/storage";
+import { listPublicTeams } from "../lib/teams";
 
 export async function getGame(
 	request: HttpRequest,
@@ -12,29 +18,38 @@ export async function getGame(
 ): Promise<HttpResponseInit> {
 	context.log(`Http function processed request for url "${request.url}"`);
 
-	const gameId = request.query.get("gameId");
+	// A join code works as well; it stops resolving once the game is over
+	const gameId = request.query.get("gameId") || request.query.get("code");
 
 	if (!gameId) {
 		return {
 			status: 400,
-			body: "Please pass a gameId on the query string",
+			body: "Please pass a gameId or code on the query string",
 		};
 	}
 
-	const client = new CosmosClient(process.env.COSMOSDB_CONNECTION_STRING);
-	const database = client.database("mini-prompt-quiz");
-	const gameContainer = database.container("games");
+	const game = await findGame(getStorage().games, gameId);
 
-	const game = await gameContainer.item(gameId, gameId).read();
-
-	if (!game.resource) {
+	if (!game) {
 		return { status: 404, body: "Game not found" };
 	}
 
 	const gameObj = {
-		id: game.resource.id,
-		players: game.resource.players,
-		theme: game.resource.judge.theme,
+		id: game.id,
+		status: getGamePhase(game),
+		joinCode: game.joinCode,
+		currentRound: getCurrentRound(game),
+		totalRounds: getTotalRounds(game),
+		promptDeadline: getPromptWindow(game)?.deadline,
+		promptRules: getPromptRules(game),
+		// Public questions for practicePrompt
+		sampleQuestions: game.judge.sampleQuestions ?? [],
+		budget: game.budget,
+		players: game.players,
+		teamSettings: game.teams,
+		// Each team with its members; only for games played in teams
+		teams: game.teams ? await listPublicTeams(game.id) : undefined,
+		theme: game.judge.theme,
 	};
 
 	return { status: 200, body: JSON.stringify(gameObj) };
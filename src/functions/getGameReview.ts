@@ -0,0 +1,101 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getGamePhase } from "../lib/gamePhase";
+import { getFinalVersion, getPromptVersions } from "../lib/prompts";
+import { getTotalRounds, roundOf } from "../lib/rounds";
+import { getStorage } from "../lib/storage";
+
+// Each player's prompt iterations next to their answers and scores per round.
+// Hosts can follow it during the game; everyone can see it once it finished.
+export async function getGameReview(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	if (!gameId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId parameter" },
+		};
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	if (getGamePhase(game) !== "finished") {
+		const { denied } = authorizeHostForGame(request, game);
+		if (denied) {
+			return denied;
+		}
+	}
+
+	const totalRounds = getTotalRounds(game);
+	const answers = game.aiResponses ?? [];
+	const judgements = game.judgements ?? [];
+
+	const review = (await players.listByGame(gameId)).map((player) => ({
+		playerId: player.id,
+		name: player.screenName,
+		totalScore: player.totalScore ?? 0,
+		roundScores: player.roundScores ?? [],
+		finalVersion: getFinalVersion(player),
+		promptVersions: getPromptVersions(player),
+		rounds: Array.from({ length: totalRounds }, (_, index) => {
+			const round = index + 1;
+			const roundAnswers = answers.filter(
+				(a) => a.playerId === player.id && roundOf(a) === round
+			);
+			return {
+				round,
+				promptVersion: roundAnswers[0]?.promptVersion,
+				prompt: roundAnswers[0]?.assistantPrompt,
+				score: player.roundScores?.[index],
+				answers: roundAnswers.map((answer) => {
+					const judgement = judgements.find(
+						(j) => j.aiAnswerId === answer.id
+					);
+					return {
+						questionId: answer.questionId,
+						question: answer.question,
+						answer: answer.answer,
+						totalScore: judgement?.totalScore,
+						contextScore: judgement?.contextScore,
+						technicalScore: judgement?.technicalScore,
+						clarityScore: judgement?.clarityScore,
+						justification: judgement?.justification,
+						scoreStdDev: judgement?.scoreStdDev,
+						needsReview: judgement?.needsReview,
+						panelScores: judgement?.panelScores,
+					};
+				}),
+			};
+		}),
+	}));
+
+	return {
+		status: 200,
+		jsonBody: {
+			gameId,
+			status: getGamePhase(game),
+			theme: game.judge.theme,
+			totalRounds,
+			players: review,
+		},
+	};
+}
+
+app.http("getGameReview", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getGameReview,
+});
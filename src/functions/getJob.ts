@@ -0,0 +1,50 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+export async function getJob(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const jobId = request.query.get("jobId");
+	if (!jobId) {
+		return { status: 400, jsonBody: { error: "Missing jobId parameter" } };
+	}
+
+	const { games, jobs } = getStorage();
+	const job = await jobs.get(jobId);
+	if (!job) {
+		return { status: 404, jsonBody: { error: "Job not found" } };
+	}
+
+	const game = await games.get(job.gameId);
+	const { denied } = authorizeHostForGame(
+		request,
+		game ?? { id: job.gameId }
+	);
+	if (denied) {
+		return denied;
+	}
+
+	return {
+		status: 200,
+		jsonBody: {
+			...job,
+			progress:
+				job.total === 0 ? 1 : (job.completed + job.failed) / job.total,
+		},
+	};
+}
+
+app.http("getJob", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getJob,
+});
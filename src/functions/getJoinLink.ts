@@ -0,0 +1,66 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import * as QRCode from "qrcode";
+import { getGamePhase } from "../lib/gamePhase";
+import { findGame, getJoinUrl } from "../lib/joinCodes";
+import { getStorage } from "../lib/storage";
+
+// The join URL and a QR code for it, for hosts to put on the projector.
+// ?format=svg returns the bare SVG so it can be used as an image source.
+export async function getJoinLink(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId") || request.query.get("code");
+	if (!gameId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId or code parameter" },
+		};
+	}
+
+	const game = await findGame(getStorage().games, gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const phase = getGamePhase(game);
+	if (!game.joinCode || phase === "finished" || phase === "cancelled") {
+		return {
+			status: 410,
+			jsonBody: { error: "This game can no longer be joined" },
+		};
+	}
+
+	const joinUrl = getJoinUrl(request.url, game.joinCode);
+	const qrSvg = await QRCode.toString(joinUrl, {
+		type: "svg",
+		errorCorrectionLevel: "M",
+		margin: 2,
+	});
+
+	if (request.query.get("format") === "svg") {
+		return {
+			status: 200,
+			headers: { "Content-Type": "image/svg+xml" },
+			body: qrSvg,
+		};
+	}
+
+	return {
+		status: 200,
+		jsonBody: { gameId: game.id, joinCode: game.joinCode, joinUrl, qrSvg },
+	};
+}
+
+app.http("getJoinLink", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getJoinLink,
+});
@@ -0,0 +1,51 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeAdmin } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+// Returns a single judge when judgeId is given, otherwise all judges.
+// Disabled judges are only listed with includeDisabled=true.
+export async function getJudges(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { judges } = getStorage();
+	const judgeId = request.query.get("judgeId");
+
+	if (judgeId) {
+		const judge = await judges.get(judgeId);
+		if (!judge) {
+			return { status: 404, jsonBody: { error: "Judge not found" } };
+		}
+		return { status: 200, jsonBody: judge };
+	}
+
+	const includeDisabled = request.query.get("includeDisabled") === "true";
+	const allJudges = await judges.list();
+
+	return {
+		status: 200,
+		jsonBody: {
+			judges: allJudges.filter(
+				(judge) => includeDisabled || !judge.disabled
+			),
+		},
+	};
+}
+
+app.http("getJudges", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getJudges,
+});
@@ -1,20 +1,32 @@
-import { CosmosClient } from "@azure/cosmos";
 import {
 	app,
 	HttpRequest,
 	HttpResponseInit,
 	InvocationContext,
 } from "@azure/functions";
+import {
+	aggregateAllTime,
+	decodeCursor,
+	DEFAULT_PAGE_SIZE,
+	emptyBreakdown,
+	LeaderboardCursor,
+	MAX_PAGE_SIZE,
+	nextCursor,
+	rankRows,
+} from "../lib/leaderboard";
+import { getStorage, Player } from "../lib/storage";
+import { getMemberNames, getTeamSettings, isTeam } from "../lib/teams";
 
-interface Player {
-	id: string;
-	screenName: string;
-	totalScore: number;
-	themeName: string;
-	gameId: string;
-	// Add any other player fields you need
-}
+const TEAM_RANKINGS = ["teams", "individuals"] as const;
+type TeamRanking = (typeof TEAM_RANKINGS)[number];
 
+// Query parameters:
+//   gameId          only players of this game (default: every game)
+//   ranking         teams (default) or individuals, for a game whose teams
+//                   are ranked separately
+//   view=alltime    one row per person across games, see aggregateAllTime;
+//                   filter with theme, from and to (ISO dates)
+//   limit, cursor   page size and the nextCursor of the previous page
 export async function getLeaderBoard(
 	request: HttpRequest,
 	context: InvocationContext
@@ -22,52 +34,46 @@ export async function getLeaderBoard(
 	context.log(`Http function processed request for url "${request.url}"`);
 
 	try {
-		// Get gameId from query parameter if you want to filter by game
-		const gameId = request.query.get("gameId");
-
-		// Initialize Cosmos DB client
-		const client = new CosmosClient(process.env.COSMOSDB_CONNECTION_STRING);
-		const database = client.database("mini-prompt-quiz");
-		const playerContainer = database.container("players");
-
-		// Build the query
-		let querySpec: any = {
-			query: "SELECT p.id, p.screenName, p.totalScore, p.themeName, p.gameId FROM players p WHERE IS_DEFINED(p.totalScore) ORDER BY p.totalScore DESC OFFSET 0 LIMIT 5",
-			parameters: [],
-		};
-
-		// Add gameId filter if provided
-		if (gameId) {
-			querySpec = {
-				query: "SELECT p.id, p.screenName, p.totalScore, p.themeName, p.gameId FROM players p WHERE p.gameId = @gameId AND IS_DEFINED(p.totalScore) ORDER BY p.totalScore DESC OFFSET 0 LIMIT 5",
-				parameters: [
-					{
-						name: "@gameId",
-						value: gameId,
-					},
-				],
+		const limit = Number(request.query.get("limit") ?? DEFAULT_PAGE_SIZE);
+		if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+			return {
+				status: 400,
+				jsonBody: {
+					error: `limit must be between 1 and ${MAX_PAGE_SIZE}`,
+				},
 			};
 		}
 
-		// Execute the query
-		const { resources: players } = await playerContainer.items
-			.query<Player>(querySpec)
-			.fetchAll();
+		const cursorParam = request.query.get("cursor");
+		const cursor: LeaderboardCursor = cursorParam
+			? decodeCursor(cursorParam)
+			: { offset: 0 };
+		if (!cursor) {
+			return { status: 400, jsonBody: { error: "Invalid cursor" } };
+		}
 
-		// Transform data for presentation if needed
-		const leaderboard = players.map((player, index) => ({
-			rank: index + 1,
-			id: player.id,
-			name: player.screenName,
-			score: player.totalScore,
-			theme: player.themeName,
-			gameId: player.gameId,
-		}));
+		const ranking = request.query.get("ranking") ?? "teams";
+		if (!TEAM_RANKINGS.includes(ranking as TeamRanking)) {
+			return {
+				status: 400,
+				jsonBody: { error: "ranking must be teams or individuals" },
+			};
+		}
+
+		const page =
+			request.query.get("view") === "alltime"
+				? await getAllTimePage(request, cursor, limit)
+				: await getPlayerPage(
+						request,
+						cursor,
+						limit,
+						ranking as TeamRanking
+				  );
 
 		return {
 			status: 200,
 			jsonBody: {
-				leaderboard,
+				...page,
 				timestamp: new Date().toISOString(),
 			},
 		};
@@ -84,6 +90,103 @@ export async function getLeaderBoard(
 	}
 }
 
+async function getPlayerPage(
+	request: HttpRequest,
+	cursor: LeaderboardCursor,
+	limit: number,
+	ranking: TeamRanking
+) {
+	const { games, players: playerRepository } = getStorage();
+
+	// Get gameId from query parameter if you want to filter by game
+	const gameId = request.query.get("gameId");
+	const game = gameId ? await games.get(gameId) : undefined;
+	const separate = !!game && getTeamSettings(game)?.rankings === "separate";
+
+	// One extra row tells us whether there is another page
+	const players = separate
+		? await listRanking(game.id, ranking, cursor.offset, limit + 1)
+		: await playerRepository.listTopScores({
+				gameId: gameId || undefined,
+				offset: cursor.offset,
+				limit: limit + 1,
+		  });
+
+	const shown = players.slice(0, limit);
+	const memberNames = await getMemberNames(shown.filter(isTeam));
+	const rows = rankRows(
+		shown.map((player) => ({
+			id: player.id,
+			name: player.screenName,
+			score: player.totalScore,
+			roundScores: player.roundScores ?? [player.totalScore],
+			breakdown: player.scoreBreakdown ?? emptyBreakdown(),
+			theme: player.themeName,
+			gameId: player.gameId,
+			team: isTeam(player),
+			...(isTeam(player) ? { members: memberNames[player.id] } : {}),
+		})),
+		cursor
+	);
+
+	return {
+		...(separate ? { ranking } : {}),
+		leaderboard: rows,
+		nextCursor: nextCursor(rows, cursor, players.length > limit),
+	};
+}
+
+// One of the two rankings of a game whose teams are ranked separately from
+// players without a team, best first
+async function listRanking(
+	gameId: string,
+	ranking: TeamRanking,
+	offset: number,
+	limit: number
+): Promise<Player[]> {
+	const players = await getStorage().players.listByGame(gameId);
+	return players
+		.filter(
+			(player) =>
+				player.totalScore !== undefined &&
+				isTeam(player) === (ranking === "teams")
+		)
+		.sort(
+			(a, b) =>
+				b.totalScore - a.totalScore ||
+				a.screenName.localeCompare(b.screenName)
+		)
+		.slice(offset, offset + limit);
+}
+
+async function getAllTimePage(
+	request: HttpRequest,
+	cursor: LeaderboardCursor,
+	limit: number
+) {
+	const players = await getStorage().players.listScored({
+		themeName: request.query.get("theme") || undefined,
+		from: request.query.get("from") || undefined,
+		to: request.query.get("to") || undefined,
+	});
+
+	const entries = aggregateAllTime(players);
+	const rows = rankRows(
+		entries.slice(cursor.offset, cursor.offset + limit),
+		cursor
+	);
+
+	return {
+		view: "alltime",
+		leaderboard: rows,
+		nextCursor: nextCursor(
+			rows,
+			cursor,
+			entries.length > cursor.offset + limit
+		),
+	};
+}
+
 app.http("getLeaderBoard", {
 	methods: ["GET", "POST"],
 	authLevel: "anonymous",
@@ -0,0 +1,51 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
+import { getFinalVersion, getPromptVersions } from "../lib/prompts";
+import { getStorage } from "../lib/storage";
+import { getPromptOwner } from "../lib/teams";
+
+// Lists the calling player's own prompt versions, oldest first, or their
+// team's with who edited each one
+export async function getPromptHistory(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const player = await getStorage().players.get(
+		identity.gameId,
+		identity.playerId
+	);
+	if (!player) {
+		return { status: 404, jsonBody: { error: "Player not found" } };
+	}
+
+	const owner = await getPromptOwner(player);
+	return {
+		status: 200,
+		jsonBody: {
+			gameId: player.gameId,
+			playerId: player.id,
+			teamId: player.teamId,
+			lastEditedBy: owner.team?.lastEditedByName,
+			finalVersion: getFinalVersion(owner),
+			versions: getPromptVersions(owner),
+		},
+	};
+}
+
+app.http("getPromptHistory", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getPromptHistory,
+});
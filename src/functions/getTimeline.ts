@@ -0,0 +1,85 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer, authorizeHostForGame } from "../lib/auth";
+import {
+	DEFAULT_TIMELINE_PAGE,
+	MAX_TIMELINE_PAGE,
+	takeSettledEvents,
+} from "../lib/events";
+import { getGamePhase } from "../lib/gamePhase";
+import { getStorage } from "../lib/storage";
+
+// The game's events in order. Reconnecting clients pass the last sequence
+// they saw as ?since=N; a host screen replays a game from the start by
+// following nextSince while hasMore is true. Open to the game's hosts and
+// its players.
+export async function getTimeline(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	if (!gameId) {
+		return { status: 400, jsonBody: { error: "Missing gameId parameter" } };
+	}
+
+	const since = Number(request.query.get("since") ?? 0);
+	const limit = Number(request.query.get("limit") ?? DEFAULT_TIMELINE_PAGE);
+	if (
+		!Number.isInteger(since) ||
+		since < 0 ||
+		!Number.isInteger(limit) ||
+		limit < 1 ||
+		limit > MAX_TIMELINE_PAGE
+	) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: `since must be a sequence number and limit between 1 and ${MAX_TIMELINE_PAGE}`,
+			},
+		};
+	}
+
+	const { games, events } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { player } = authenticatePlayer(request);
+	if (player?.gameId !== game.id) {
+		const { denied } = authorizeHostForGame(request, game);
+		if (denied) {
+			return denied;
+		}
+	}
+
+	// One extra event tells us whether there is more to fetch. A page cut
+	// short at a gap also has more, once the missing event arrives.
+	const page = await events.listByGame(game.id, since, limit + 1);
+	const timeline = takeSettledEvents(page.slice(0, limit), since);
+
+	return {
+		status: 200,
+		jsonBody: {
+			gameId: game.id,
+			phase: getGamePhase(game),
+			events: timeline,
+			nextSince: timeline.length
+				? timeline[timeline.length - 1].sequence
+				: since,
+			hasMore: page.length > timeline.length,
+		},
+	};
+}
+
+app.http("getTimeline", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getTimeline,
+});
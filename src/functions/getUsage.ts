@@ -0,0 +1,77 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticateHost, authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+import { rollUpUsage } from "../lib/usage";
+
+// Token usage and estimated cost for ?gameId=... broken down by player and
+// kind of call, or for ?eventId=... broken down by game
+export async function getUsage(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	const eventId = request.query.get("eventId");
+	if (!gameId && !eventId) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing gameId or eventId parameter" },
+		};
+	}
+
+	const { games, usage } = getStorage();
+
+	if (gameId) {
+		const game = await games.get(gameId);
+		if (!game) {
+			return { status: 404, jsonBody: { error: "Game not found" } };
+		}
+
+		const { denied } = authorizeHostForGame(request, game);
+		if (denied) {
+			return denied;
+		}
+
+		const entries = await usage.listByGame(gameId);
+		return {
+			status: 200,
+			jsonBody: {
+				gameId,
+				budget: game.budget,
+				...rollUpUsage(entries, ["playerId", "kind", "model"]),
+			},
+		};
+	}
+
+	const { host, denied } = authenticateHost(request);
+	if (denied) {
+		return denied;
+	}
+	if (host.role !== "admin" && host.eventId !== eventId) {
+		return {
+			status: 403,
+			jsonBody: { error: "You are not a host of this event" },
+		};
+	}
+
+	const entries = await usage.listByEvent(eventId);
+	return {
+		status: 200,
+		jsonBody: {
+			eventId,
+			...rollUpUsage(entries, ["gameId", "kind", "model"]),
+		},
+	};
+}
+
+app.http("getUsage", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getUsage,
+});
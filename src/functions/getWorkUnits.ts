@@ -0,0 +1,70 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage, UnitStage } from "../lib/storage";
+import { countUnits } from "../lib/units";
+
+// Where every (player, question) pair of a game stands in one stage, with
+// the reason for each failure. Filter with ?round= and ?status=.
+export async function getWorkUnits(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const gameId = request.query.get("gameId");
+	const stage = (request.query.get("stage") || "answers") as UnitStage;
+	if (!gameId) {
+		return { status: 400, jsonBody: { error: "Missing gameId parameter" } };
+	}
+	if (stage !== "answers" && stage !== "judgements") {
+		return {
+			status: 400,
+			jsonBody: { error: "stage must be answers or judgements" },
+		};
+	}
+
+	const { games, units } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const round = Number(request.query.get("round"));
+	const status = request.query.get("status");
+	const stageUnits = (await units.listByGame(gameId, stage))
+		.filter((unit) => !round || unit.round === round)
+		.sort(
+			(a, b) =>
+				a.round - b.round ||
+				a.playerId.localeCompare(b.playerId) ||
+				a.questionId.localeCompare(b.questionId)
+		);
+
+	return {
+		status: 200,
+		jsonBody: {
+			gameId,
+			stage,
+			counts: countUnits(stageUnits),
+			units: status
+				? stageUnits.filter((unit) => unit.status === status)
+				: stageUnits,
+		},
+	};
+}
+
+app.http("getWorkUnits", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: getWorkUnits,
+});
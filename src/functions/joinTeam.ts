@@ -0,0 +1,107 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
+import { getStorage, Player, PreconditionFailedError } from "../lib/storage";
+import {
+	broadcastTeamUpdate,
+	isTeam,
+	joinTeamIfRoom,
+	requireTeams,
+	toPublicTeam,
+} from "../lib/teams";
+
+type JoinTeamRequest = {
+	teamId: string;
+};
+
+// Moves the player into a team that has room, out of any team they were in
+export async function joinTeam(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { teamId } = (await request.json()) as JoinTeamRequest;
+	if (!teamId) {
+		return { status: 400, jsonBody: { error: "teamId is required" } };
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(identity.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { settings, denied: conflict } = requireTeams(game);
+	if (conflict) {
+		return conflict;
+	}
+
+	const everyone = await players.listByGame(game.id);
+	const player = everyone.find((p) => p.id === identity.playerId);
+	const team = everyone.find((p) => p.id === teamId && isTeam(p));
+	if (!player || !team) {
+		return {
+			status: 404,
+			jsonBody: { error: player ? "Team not found" : "Player not found" },
+		};
+	}
+	if (player.teamId === team.id) {
+		return {
+			status: 409,
+			jsonBody: { error: "You are already in this team" },
+		};
+	}
+
+	let members: Player[] | undefined;
+	try {
+		members = await joinTeamIfRoom(
+			player,
+			team.id,
+			settings.maxMembers,
+			context
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: {
+					error: "Your player was changed at the same time, try again",
+				},
+			};
+		}
+		throw error;
+	}
+
+	if (!members) {
+		return {
+			status: 409,
+			jsonBody: {
+				error: `This team is full (${settings.maxMembers} members)`,
+			},
+		};
+	}
+
+	const member = members.find((p) => p.id === player.id);
+	await broadcastTeamUpdate(game.id, "joined", member, team.id, context);
+
+	return {
+		status: 200,
+		jsonBody: { team: toPublicTeam(team, members) },
+	};
+}
+
+app.http("joinTeam", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: joinTeam,
+});
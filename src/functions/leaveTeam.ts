@@ -0,0 +1,67 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
+import { getStorage, PreconditionFailedError } from "../lib/storage";
+import { moveToTeam, requireTeams } from "../lib/teams";
+
+// The player goes back to playing on their own, with their own prompt. A
+// team left without members keeps its prompt but gets no answers.
+export async function leaveTeam(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(identity.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied: conflict } = requireTeams(game);
+	if (conflict) {
+		return conflict;
+	}
+
+	const player = await players.get(game.id, identity.playerId);
+	if (!player) {
+		return { status: 404, jsonBody: { error: "Player not found" } };
+	}
+	if (!player.teamId) {
+		return { status: 409, jsonBody: { error: "You are not in a team" } };
+	}
+
+	try {
+		await moveToTeam(player, undefined, context);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: {
+					error: "Your player was changed at the same time, try again",
+				},
+			};
+		}
+		throw error;
+	}
+
+	return {
+		status: 200,
+		jsonBody: { message: "Left the team", teamId: player.teamId },
+	};
+}
+
+app.http("leaveTeam", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: leaveTeam,
+});
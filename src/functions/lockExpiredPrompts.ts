@@ -0,0 +1,18 @@
+import { app, InvocationContext, Timer } from "@azure/functions";
+import { jobQueueOutputs } from "../lib/jobs";
+import { lockExpiredPrompts } from "../lib/promptWindow";
+
+export async function lockExpiredPromptsTimer(
+	timer: Timer,
+	context: InvocationContext
+): Promise<void> {
+	await lockExpiredPrompts(context);
+}
+
+// submitPrompt enforces the deadline itself; this only announces the lock and
+// starts answer generation, so running every few seconds is close enough
+app.timer("lockExpiredPrompts", {
+	schedule: "*/10 * * * * *",
+	extraOutputs: jobQueueOutputs,
+	handler: lockExpiredPromptsTimer,
+});
@@ -1,10 +1,28 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
 const { WebPubSubServiceClient } = require('@azure/web-pubsub');
 
+// Admin tokens only cover the one game the caller hosts
 export async function negotiateAdmin(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const gameId = request.query.get('gameId');
+    if (!gameId) {
+        return { status: 400, jsonBody: { error: 'Missing gameId parameter' } };
+    }
+
+    const game = await getStorage().games.get(gameId);
+    if (!game) {
+        return { status: 404, jsonBody: { error: 'Game not found' } };
+    }
+
+    const { host, denied } = authorizeHostForGame(request, game);
+    if (denied) {
+        return denied;
+    }
+
     const hubName = 'miniHackathon';
     const serviceClient = new WebPubSubServiceClient(process.env.WEB_PUBSUB_CONNECTION_STRING, hubName);
-    let token = await serviceClient.getClientAccessToken({roles: ["webpubsub.joinLeaveGroup", "webpubsub.sendToGroup"] });
+    let token = await serviceClient.getClientAccessToken({ roles: [`webpubsub.joinLeaveGroup.${gameId}`, `webpubsub.sendToGroup.${gameId}`], userId: host.id, groups: [gameId] });
     return { body: JSON.stringify(token), headers: { 'Content-Type': 'application/json' }};
 };
 
@@ -1,12 +1,20 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
 const { WebPubSubServiceClient } = require('@azure/web-pubsub');
 
 export async function negotiateUser(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    // The group and user come from the player's session token, not the query
+    const { player, denied } = authenticatePlayer(request);
+    if (denied) {
+        return denied;
+    }
+
     const hubName = 'miniHackathon';
     const serviceClient = new WebPubSubServiceClient(process.env.WEB_PUBSUB_CONNECTION_STRING, hubName);
-    const groupId = request.query.get('groupId') || await request.text();
-    const userId = request.query.get('userId') || await request.text();
-    let token = await serviceClient.getClientAccessToken({roles: [`webpubsub.joinLeaveGroup.${groupId}`, `webpubsub.sendToGroup.${groupId}`], userId, groups: [groupId] });
+    const groupId = player.gameId;
+    const userId = player.playerId;
+    // Players only listen; messages to the game's group come from the server
+    let token = await serviceClient.getClientAccessToken({roles: [`webpubsub.joinLeaveGroup.${groupId}`], userId, groups: [groupId] });
     return { body: JSON.stringify(token), headers: { 'Content-Type': 'application/json' }};
 };
 
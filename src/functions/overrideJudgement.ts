@@ -0,0 +1,152 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { recordAudit } from "../lib/audit";
+import { recordEvent } from "../lib/events";
+import { authorizeHostForGame } from "../lib/auth";
+import {
+	findJudgement,
+	requireCorrectablePhase,
+	saveCorrectedJudgement,
+	scoresOf,
+} from "../lib/corrections";
+import { MAX_CRITERION_SCORE } from "../lib/llm/judgePrompt";
+import { getStorage, Judgement, PreconditionFailedError } from "../lib/storage";
+
+type OverrideJudgementRequest = {
+	gameId: string;
+	judgementId: string;
+	contextScore: number;
+	technicalScore: number;
+	clarityScore: number;
+	justification?: string;
+	reason: string;
+};
+
+const CRITERIA = ["contextScore", "technicalScore", "clarityScore"] as const;
+
+// Replaces the scores of one judgement. The reason is required and goes to
+// the audit log; player totals are recomputed straight away.
+export async function overrideJudgement(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const input = (await request.json()) as OverrideJudgementRequest;
+	const violations: string[] = [];
+	if (!input.gameId || !input.judgementId) {
+		violations.push("gameId and judgementId are required");
+	}
+	if (typeof input.reason !== "string" || !input.reason.trim()) {
+		violations.push("reason is required");
+	}
+	for (const criterion of CRITERIA) {
+		const score = input[criterion];
+		if (
+			!Number.isInteger(score) ||
+			score < 0 ||
+			score > MAX_CRITERION_SCORE
+		) {
+			violations.push(
+				`${criterion} must be a whole number from 0 to ${MAX_CRITERION_SCORE}`
+			);
+		}
+	}
+	if (violations.length > 0) {
+		return {
+			status: 400,
+			jsonBody: { error: "Invalid override", violations },
+		};
+	}
+
+	const game = await getStorage().games.get(input.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { host, denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const conflict = requireCorrectablePhase(game, "override scores");
+	if (conflict) {
+		return conflict;
+	}
+
+	const { judgement, index } = findJudgement(game, input.judgementId);
+	if (!judgement) {
+		return { status: 404, jsonBody: { error: "Judgement not found" } };
+	}
+
+	const now = new Date().toISOString();
+	const updated: Judgement = {
+		...judgement,
+		contextScore: input.contextScore,
+		technicalScore: input.technicalScore,
+		clarityScore: input.clarityScore,
+		totalScore:
+			input.contextScore + input.technicalScore + input.clarityScore,
+		justification: input.justification ?? judgement.justification,
+		status: "judged",
+		error: undefined,
+		needsReview: false,
+		original: judgement.original ?? scoresOf(judgement),
+		overriddenBy: host.id,
+		overrideReason: input.reason,
+		appeal: judgement.appeal && {
+			...judgement.appeal,
+			status: "resolved",
+			resolvedAt: now,
+			resolution: `Scores overridden: ${input.reason}`,
+		},
+	};
+
+	try {
+		await saveCorrectedJudgement(game, index, updated, context);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: { error: "The judgements changed, try again" },
+			};
+		}
+		throw error;
+	}
+
+	await recordAudit({
+		gameId: game.id,
+		action: "scoreOverride",
+		actor: host.id,
+		actorRole: host.role,
+		targetId: judgement.id,
+		before: scoresOf(judgement),
+		after: scoresOf(updated),
+		reason: input.reason,
+	});
+	await recordEvent(
+		game.id,
+		host.id,
+		{
+			type: "scoreOverridden",
+			judgementId: judgement.id,
+			playerId: judgement.playerId,
+			before: judgement.totalScore,
+			after: updated.totalScore,
+			reason: input.reason,
+		},
+		context
+	);
+
+	return { status: 200, jsonBody: updated };
+}
+
+app.http("overrideJudgement", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: overrideJudgement,
+});
@@ -1,25 +1,29 @@
-import { CosmosClient } from "@azure/cosmos";
 import {
 	app,
 	HttpRequest,
 	HttpResponseInit,
 	InvocationContext,
 } from "@azure/functions";
-import { WebPubSubServiceClient } from "@azure/web-pubsub";
+import { v4 as uuid } from "uuid";
+import {
+	createPlayerToken,
+	generateRecoveryCode,
+	hashRecoveryCode,
+} from "../lib/auth";
+import { recordEvent } from "../lib/events";
+import { requirePhase } from "../lib/gamePhase";
+import { findGame } from "../lib/joinCodes";
+import { playerKey } from "../lib/leaderboard";
+import { toPublicPlayer } from "../lib/players";
+import { getStorage, Player } from "../lib/storage";
+import { sendToGame } from "../lib/webPubSub";
 
 type PlayerRegRequest = {
-	gameId: string;
-	screenName: string;
-	email: string;
-	userId: string;
-};
-
-export type Player = {
-	id: string;
-	gameId: string;
+	// Either the game id or its join code
+	gameId?: string;
+	joinCode?: string;
 	screenName: string;
 	email: string;
-	prompt?: string;
 };
 
 export async function playerReg(
@@ -30,87 +34,110 @@ export async function playerReg(
 		return { status: 405, body: "Method Not Allowed" };
 	}
 
-	const { screenName, email, gameId, userId }: PlayerRegRequest =
-		(await request.json()) as PlayerRegRequest;
+	const {
+		screenName,
+		email,
+		gameId: gameIdOrCode,
+		joinCode,
+	}: PlayerRegRequest = (await request.json()) as PlayerRegRequest;
 
 	context.log("Received player registration request", {
 		screenName,
-		email,
-		gameId,
-		userId,
+		gameId: joinCode || gameIdOrCode,
 	});
 
 	if (!screenName || !email) {
 		return { status: 400, body: "Screen name and email are required" };
 	}
-	context.log(
-		"Cosmos DB connection string: ",
-		process.env.COSMOSDB_CONNECTION_STRING
-	);
-
-	const client = new CosmosClient(process.env.COSMOSDB_CONNECTION_STRING);
-	const database = client.database("mini-prompt-quiz");
-	const playerContainer = database.container("players");
-	const gameContainer = database.container("games");
+	if (!joinCode && !gameIdOrCode) {
+		return { status: 400, body: "A gameId or joinCode is required" };
+	}
 
-	const player: Player = { id: userId, screenName, email, gameId };
+	const { counters, games, players } = getStorage();
 
-	const createdPlayer = await playerContainer.items.upsert(player);
+	// Check if there is a game with the given gameId or join code
+	const game = await findGame(games, joinCode || gameIdOrCode);
+	if (!game) {
+		return { status: 404, body: "Game not found" };
+	}
+	const gameId = game.id;
 
-	if (!createdPlayer) {
-		return { status: 500, body: "Failed to create player" };
+	// Late joiners would have no prompt once answers are being generated
+	const conflict = requirePhase(game, ["lobby", "prompting"], "join");
+	if (conflict) {
+		return conflict;
 	}
 
-	// Check if there is a game with the given gameId
-	const game = await gameContainer.item(gameId, gameId).read();
-	if (!game.resource) {
-		return { status: 404, body: "Game not found" };
+	// Joining again from another device goes through recoverPlayer instead.
+	// The email is claimed in one operation before anything is stored, so
+	// two requests with the same email can't both join.
+	const emailClaim = `playerEmail:${gameId}:${playerKey(email)}`;
+	const { count } = await counters.increment(emailClaim, 1);
+	if (count > 1) {
+		await counters.increment(emailClaim, -1);
+		return {
+			status: 409,
+			jsonBody: {
+				error: "This email has already joined the game. Use your recovery code to rejoin.",
+			},
+		};
 	}
 
-	const currentPlayerIds = game.resource.playerIds || [];
-	const currentPlayers = game.resource.players || [];
+	// The player id is ours to choose so clients cannot claim someone else's
+	const id = uuid();
+	const recoveryCode = generateRecoveryCode();
+	const player: Player = { id, screenName, email, gameId };
 
-	const updatedGame = await gameContainer.item(gameId, gameId).replace({
-		...game.resource,
-		players: [...currentPlayers, player],
-		playerIds: [...currentPlayerIds, player.id],
-	});
+	let createdPlayer: Player;
+	try {
+		createdPlayer = await players.upsert({
+			...player,
+			recoveryCodeHash: hashRecoveryCode(id, recoveryCode),
+		});
 
-	await sendWebPubSubMessage(player, context);
+		// Appended one at a time so concurrent joiners are all kept
+		await games.append(gameId, "players", player);
+		await games.append(gameId, "playerIds", player.id);
+	} catch (error) {
+		// Lets the player try again with the same email
+		await counters.increment(emailClaim, -1);
+		throw error;
+	}
+
+	if (!createdPlayer) {
+		return { status: 500, body: "Failed to create player" };
+	}
+
+	const event = await recordEvent(
+		gameId,
+		id,
+		{ type: "playerJoined", playerId: id, screenName },
+		context
+	);
+	await sendWebPubSubMessage(player, event?.sequence, context);
 
 	return {
 		status: 201,
 		body: JSON.stringify({
 			message: "Successfully created player",
-			createdPlayer: createdPlayer.resource,
-			theme: updatedGame.resource.judge.theme,
+			createdPlayer: toPublicPlayer(createdPlayer),
+			theme: game.judge.theme,
+			token: createPlayerToken({ gameId, playerId: id }),
+			recoveryCode,
 		}),
 	};
 }
 
 async function sendWebPubSubMessage(
 	player: Player,
+	sequence: number | undefined,
 	context: InvocationContext
 ) {
-	try {
-		if (!process.env.WEB_PUBSUB_CONNECTION_STRING) {
-			throw new Error("WEB_PUBSUB_CONNECTION_STRING is not set");
-		}
-
-		const serviceClient = new WebPubSubServiceClient(
-			process.env.WEB_PUBSUB_CONNECTION_STRING,
-			"miniHackathon"
-		);
-		const groupClient = serviceClient.group(player.gameId);
-		await groupClient.sendToAll({
-			message: "A new player joined the game",
-			player,
-		});
-
-		context.log("Web PubSub message sent successfully");
-	} catch (error) {
-		context.error("Failed to send Web PubSub message:", error);
-	}
+	await sendToGame(
+		player.gameId,
+		{ message: "A new player joined the game", player, sequence },
+		context
+	);
 }
 
 app.http("playerReg", {
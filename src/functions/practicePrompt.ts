@@ -0,0 +1,203 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { generateAnswer } from "../lib/answers";
+import { authenticatePlayer } from "../lib/auth";
+import { requirePhase } from "../lib/gamePhase";
+import { applyInjectionRules, getInjectionRules } from "../lib/injection";
+import { judgeAnswer } from "../lib/judging";
+import { getLLMProvider } from "../lib/llm";
+import { getJudgePanel } from "../lib/panel";
+import {
+	getPracticeRules,
+	practiceCost,
+	selectPracticeQuestions,
+} from "../lib/practice";
+import { findPromptViolations, getPromptRules } from "../lib/promptRules";
+import { consumeLimit, releaseLimit, tooManyRequests } from "../lib/rateLimit";
+import { getCurrentRound } from "../lib/rounds";
+import { getStorage, Usage } from "../lib/storage";
+import { recordUsage, requireBudget, sumUsage } from "../lib/usage";
+
+type PracticePromptRequest = {
+	prompt: string;
+	// One sample question; all of them (up to three) when left out
+	questionId?: string;
+	score?: boolean;
+};
+
+// Runs a draft prompt against the judge's public sample questions the same
+// way real answers are generated, and optionally has the game's judge score
+// them. Nothing is stored apart from the rate limit counters and the usage.
+export async function practicePrompt(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+	const { gameId, playerId } = identity;
+
+	const { prompt, questionId, score } =
+		(await request.json()) as PracticePromptRequest;
+	if (typeof prompt !== "string") {
+		return { status: 400, jsonBody: { error: "prompt is required" } };
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const conflict = requirePhase(game, ["lobby", "prompting"], "practice");
+	if (conflict) {
+		return conflict;
+	}
+
+	const player = await players.get(gameId, playerId);
+	if (!player) {
+		return { status: 404, jsonBody: { error: "Player not found" } };
+	}
+
+	const violations = findPromptViolations(prompt, getPromptRules(game));
+	if (violations.length > 0) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "The prompt breaks the game's rules",
+				violations,
+			},
+		};
+	}
+
+	const rules = getPracticeRules(game);
+	if (score && !rules.allowScoring) {
+		return {
+			status: 403,
+			jsonBody: { error: "Practice scoring is turned off for this game" },
+		};
+	}
+
+	const questions = selectPracticeQuestions(game, questionId);
+	if (questions.length === 0) {
+		return {
+			status: 404,
+			jsonBody: {
+				error: questionId
+					? "Sample question not found"
+					: "This game's judge has no sample questions",
+			},
+		};
+	}
+
+	const overBudget = await requireBudget(game, context);
+	if (overBudget) {
+		return overBudget;
+	}
+
+	// The game's quota first, so a player turned away by it keeps their slot
+	const gameQuota = await consumeLimit(
+		`practice:${gameId}`,
+		rules.gameQuota,
+		practiceCost(questions.length, !!score)
+	);
+	if (!gameQuota.allowed) {
+		return tooManyRequests("This game's practice quota is used up");
+	}
+
+	const playerLimit = await consumeLimit(
+		`practice:${gameId}:${playerId}`,
+		rules.playerLimit,
+		1,
+		rules.windowSeconds
+	);
+	if (!playerLimit.allowed) {
+		await releaseLimit(gameQuota);
+		return tooManyRequests(
+			"Too many practice runs, try again later",
+			playerLimit.resetAt
+		);
+	}
+
+	const draft = { ...player, prompt };
+	const usages: Usage[] = [];
+	const results = await Promise.all(
+		questions.map(async (question) => {
+			const answer = await generateAnswer(
+				getLLMProvider("answer"),
+				draft,
+				question,
+				getCurrentRound(game),
+				context
+			);
+			if ("error" in answer) {
+				return {
+					questionId: question.id,
+					question: question.content,
+					error: answer.error,
+				};
+			}
+			usages.push(answer.usage);
+			if (!score) {
+				return {
+					questionId: question.id,
+					question: question.content,
+					answer: answer.answer,
+				};
+			}
+
+			// Only the game's own judge, once, to keep practice cheap
+			const judgement = applyInjectionRules(
+				await judgeAnswer(
+					getLLMProvider("judge"),
+					getJudgePanel({ judge: game.judge }),
+					answer,
+					context
+				),
+				answer,
+				getInjectionRules(game)
+			);
+			usages.push(judgement.usage);
+			return {
+				questionId: question.id,
+				question: question.content,
+				answer: answer.answer,
+				score: {
+					status: judgement.status,
+					contextScore: judgement.contextScore,
+					technicalScore: judgement.technicalScore,
+					clarityScore: judgement.clarityScore,
+					totalScore: judgement.totalScore,
+					justification: judgement.justification,
+				},
+			};
+		})
+	);
+
+	// Practice usage counts towards the game's budget like any other
+	await recordUsage(game, "practice", sumUsage(usages), { playerId });
+
+	return {
+		status: 200,
+		jsonBody: {
+			results,
+			practice: {
+				remaining: playerLimit.remaining,
+				resetAt: playerLimit.resetAt,
+			},
+		},
+	};
+}
+
+app.http("practicePrompt", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: practicePrompt,
+});
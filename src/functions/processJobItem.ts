@@ -0,0 +1,23 @@
+import { app, InvocationContext } from "@azure/functions";
+import {
+	getJobQueueBackend,
+	JOB_QUEUE_NAME,
+	processWorkItem,
+	WorkItem,
+} from "../lib/jobs";
+
+export async function processJobItem(
+	queueItem: unknown,
+	context: InvocationContext
+): Promise<void> {
+	await processWorkItem(queueItem as WorkItem, context);
+}
+
+// With JOB_QUEUE=local the items run in-process and no queue is needed
+if (getJobQueueBackend() === "storage") {
+	app.storageQueue("processJobItem", {
+		queueName: JOB_QUEUE_NAME,
+		connection: "AzureWebJobsStorage",
+		handler: processJobItem,
+	});
+}
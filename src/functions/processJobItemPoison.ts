@@ -0,0 +1,28 @@
+import { app, InvocationContext } from "@azure/functions";
+import {
+	failWorkItem,
+	getJobQueueBackend,
+	JOB_QUEUE_NAME,
+	WorkItem,
+} from "../lib/jobs";
+
+// Azure Storage moves a message here once processJobItem has failed on it
+// too many times
+export async function processJobItemPoison(
+	queueItem: unknown,
+	context: InvocationContext
+): Promise<void> {
+	await failWorkItem(
+		queueItem as WorkItem,
+		"Processing failed repeatedly",
+		context
+	);
+}
+
+if (getJobQueueBackend() === "storage") {
+	app.storageQueue("processJobItemPoison", {
+		queueName: `${JOB_QUEUE_NAME}-poison`,
+		connection: "AzureWebJobsStorage",
+		handler: processJobItemPoison,
+	});
+}
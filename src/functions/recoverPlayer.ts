@@ -0,0 +1,109 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { timingSafeEqual } from "crypto";
+import {
+	createPlayerToken,
+	generateRecoveryCode,
+	hashRecoveryCode,
+} from "../lib/auth";
+import { findGame } from "../lib/joinCodes";
+import { playerKey } from "../lib/leaderboard";
+import { toPublicPlayer } from "../lib/players";
+import { consumeLimit, tooManyRequests } from "../lib/rateLimit";
+import { getStorage } from "../lib/storage";
+
+// Guesses allowed per game and email in each window
+const RECOVERY_ATTEMPTS = 5;
+const RECOVERY_WINDOW_SECONDS = 15 * 60;
+
+type RecoverPlayerRequest = {
+	// The game id or its join code
+	gameId: string;
+	email: string;
+	code: string;
+};
+
+// Issues a new session token to a player rejoining from another device.
+// Each code works once: a fresh one is returned alongside the token.
+export async function recoverPlayer(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, email, code } =
+		(await request.json()) as RecoverPlayerRequest;
+	if (!gameId || !email || !code) {
+		return {
+			status: 400,
+			jsonBody: { error: "gameId, email and code are required" },
+		};
+	}
+
+	const { games, players } = getStorage();
+	const game = await findGame(games, gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	// Counted before the email is looked up, so unknown emails are limited too
+	const attempts = await consumeLimit(
+		`recovery:${game.id}:${playerKey(email)}`,
+		RECOVERY_ATTEMPTS,
+		1,
+		RECOVERY_WINDOW_SECONDS
+	);
+	if (!attempts.allowed) {
+		return tooManyRequests(
+			"Too many recovery attempts, try again later",
+			attempts.resetAt
+		);
+	}
+
+	const player = (await players.listByGame(game.id)).find(
+		(p) => p.email.trim().toLowerCase() === email.trim().toLowerCase()
+	);
+
+	// The same answer for an unknown email and a wrong code
+	if (
+		!player?.recoveryCodeHash ||
+		!matches(player.recoveryCodeHash, hashRecoveryCode(player.id, code))
+	) {
+		return {
+			status: 401,
+			jsonBody: { error: "Email or recovery code is incorrect" },
+		};
+	}
+
+	const recoveryCode = generateRecoveryCode();
+	await players.update(game.id, player.id, {
+		recoveryCodeHash: hashRecoveryCode(player.id, recoveryCode),
+	});
+
+	return {
+		status: 200,
+		jsonBody: {
+			player: toPublicPlayer(player),
+			token: createPlayerToken({ gameId: game.id, playerId: player.id }),
+			recoveryCode,
+		},
+	};
+}
+
+function matches(expectedHash: string, actualHash: string) {
+	const expected = Buffer.from(expectedHash);
+	const actual = Buffer.from(actualHash);
+	return (
+		expected.length === actual.length && timingSafeEqual(expected, actual)
+	);
+}
+
+app.http("recoverPlayer", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: recoverPlayer,
+});
@@ -0,0 +1,61 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import {
+	authorizeHostForGame,
+	generateRecoveryCode,
+	hashRecoveryCode,
+} from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+// For players who lost their recovery code: the host reads the new code to
+// them once they have checked who they are
+export async function resetPlayerRecovery(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, playerId } = (await request.json()) as {
+		gameId: string;
+		playerId: string;
+	};
+	if (!gameId || !playerId) {
+		return {
+			status: 400,
+			jsonBody: { error: "gameId and playerId are required" },
+		};
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const player = await players.get(gameId, playerId);
+	if (!player) {
+		return { status: 404, jsonBody: { error: "Player not found" } };
+	}
+
+	const recoveryCode = generateRecoveryCode();
+	await players.update(gameId, playerId, {
+		recoveryCodeHash: hashRecoveryCode(playerId, recoveryCode),
+	});
+
+	return { status: 200, jsonBody: { playerId, recoveryCode } };
+}
+
+app.http("resetPlayerRecovery", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: resetPlayerRecovery,
+});
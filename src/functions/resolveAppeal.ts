@@ -0,0 +1,124 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { recordAudit } from "../lib/audit";
+import { authorizeHostForGame } from "../lib/auth";
+import { findJudgement, requireCorrectablePhase } from "../lib/corrections";
+import { jobQueueOutputs, startJob } from "../lib/jobs";
+import { getStorage, Judgement, PreconditionFailedError } from "../lib/storage";
+
+type ResolveAppealRequest = {
+	gameId: string;
+	judgementId: string;
+	decision: "reject" | "reevaluate";
+	reason?: string;
+};
+
+// Rejects a pending appeal or sends the answer back to the judges. To change
+// the scores by hand use overrideJudgement, which resolves the appeal too.
+export async function resolveAppeal(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, judgementId, decision, reason } =
+		(await request.json()) as ResolveAppealRequest;
+	if (
+		!gameId ||
+		!judgementId ||
+		!["reject", "reevaluate"].includes(decision)
+	) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "gameId, judgementId and a decision of reject or reevaluate are required",
+			},
+		};
+	}
+	if (decision === "reject" && !reason?.trim()) {
+		return {
+			status: 400,
+			jsonBody: { error: "A reason is required to reject an appeal" },
+		};
+	}
+
+	const { games } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { host, denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const conflict = requireCorrectablePhase(game, "resolve appeals");
+	if (conflict) {
+		return conflict;
+	}
+
+	const { judgement, index } = findJudgement(game, judgementId);
+	if (!judgement?.appeal) {
+		return { status: 404, jsonBody: { error: "Appeal not found" } };
+	}
+	if (judgement.appeal.status !== "pending") {
+		return {
+			status: 409,
+			jsonBody: {
+				error: `The appeal is already ${judgement.appeal.status}`,
+			},
+		};
+	}
+
+	const updated: Judgement = {
+		...judgement,
+		appeal:
+			decision === "reject"
+				? {
+						...judgement.appeal,
+						status: "rejected",
+						resolvedAt: new Date().toISOString(),
+						resolution: reason.trim(),
+				  }
+				: { ...judgement.appeal, status: "reevaluating" },
+	};
+
+	try {
+		await games.replaceListItem(gameId, "judgements", index, updated);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: { error: "The judgements changed, try again" },
+			};
+		}
+		throw error;
+	}
+
+	if (decision === "reject") {
+		await recordAudit({
+			gameId,
+			action: "appealRejected",
+			actor: host.id,
+			actorRole: host.role,
+			targetId: judgementId,
+			reason: reason.trim(),
+		});
+	} else {
+		await startJob(gameId, "reevaluations", [{ judgementId }], context);
+	}
+
+	return { status: 200, jsonBody: { judgementId, appeal: updated.appeal } };
+}
+
+app.http("resolveAppeal", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	extraOutputs: jobQueueOutputs,
+	handler: resolveAppeal,
+});
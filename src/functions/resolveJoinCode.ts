@@ -0,0 +1,51 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { getGamePhase } from "../lib/gamePhase";
+import { isJoinCode, normalizeJoinCode } from "../lib/joinCodes";
+import { getStorage } from "../lib/storage";
+
+// Resolves a join code to its game while the game is in play
+export async function resolveJoinCode(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const code = request.query.get("code");
+	if (!code || !isJoinCode(code)) {
+		return {
+			status: 400,
+			jsonBody: { error: "Missing or malformed code parameter" },
+		};
+	}
+
+	const game = await getStorage().games.getByJoinCode(
+		normalizeJoinCode(code)
+	);
+	if (!game) {
+		return {
+			status: 404,
+			jsonBody: { error: "No game in play uses this code" },
+		};
+	}
+
+	return {
+		status: 200,
+		jsonBody: {
+			gameId: game.id,
+			joinCode: game.joinCode,
+			status: getGamePhase(game),
+			theme: game.judge.theme,
+		},
+	};
+}
+
+app.http("resolveJoinCode", {
+	methods: ["GET"],
+	authLevel: "anonymous",
+	handler: resolveJoinCode,
+});
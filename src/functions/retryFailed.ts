@@ -0,0 +1,76 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getGamePhase, requirePhase } from "../lib/gamePhase";
+import {
+	retryFailedJudgements,
+	startAnswerGeneration,
+} from "../lib/generation";
+import { jobQueueOutputs } from "../lib/jobs";
+import { getStorage, UnitStage } from "../lib/storage";
+
+type RetryFailedRequest = {
+	gameId: string;
+	// Answers while the game is answering, judgements otherwise
+	stage?: UnitStage;
+};
+
+// Queues the game's failed units again. Answers can only be retried before
+// judging starts; failed judgements of any round can be retried at any time
+// after, and the scores are updated once they are done.
+export async function retryFailed(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, stage } = (await request.json()) as RetryFailedRequest;
+	if (!gameId) {
+		return { status: 400, jsonBody: { error: "gameId is required" } };
+	}
+	if (stage !== undefined && stage !== "answers" && stage !== "judgements") {
+		return {
+			status: 400,
+			jsonBody: { error: "stage must be answers or judgements" },
+		};
+	}
+
+	const game = await getStorage().games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	if (stage === "answers" || (!stage && getGamePhase(game) === "answering")) {
+		const conflict = requirePhase(game, ["answering"], "retry answers");
+		if (conflict) {
+			return conflict;
+		}
+		return startAnswerGeneration(game, context);
+	}
+
+	const conflict = requirePhase(
+		game,
+		["answering", "judging", "prompting", "finished"],
+		"retry judgements"
+	);
+	if (conflict) {
+		return conflict;
+	}
+	return retryFailedJudgements(game, context);
+}
+
+app.http("retryFailed", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	extraOutputs: jobQueueOutputs,
+	handler: retryFailed,
+});
@@ -0,0 +1,157 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getGamePhase, requirePhase } from "../lib/gamePhase";
+import { getCurrentRound } from "../lib/rounds";
+import { getStandings } from "../lib/standings";
+import { getStorage, RevealState } from "../lib/storage";
+import { sendToGame } from "../lib/webPubSub";
+
+type RevealResultsRequest = {
+	gameId: string;
+	// start takes a snapshot of the standings, next reveals one more player
+	// from last place up, all reveals whoever is left
+	action: "start" | "next" | "all";
+};
+
+export async function revealResults(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, action } = (await request.json()) as RevealResultsRequest;
+	if (!gameId || !["start", "next", "all"].includes(action)) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "gameId and an action of start, next or all are required",
+			},
+		};
+	}
+
+	const { games } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	// After the last round, or between rounds once the next one has begun
+	const conflict = requirePhase(
+		game,
+		["prompting", "finished"],
+		"reveal results"
+	);
+	if (conflict) {
+		return conflict;
+	}
+
+	if (action === "start") {
+		const standings = await getStandings(gameId);
+		if (standings.length === 0) {
+			return {
+				status: 409,
+				jsonBody: { error: "There are no scores to reveal yet" },
+			};
+		}
+
+		const currentRound = getCurrentRound(game);
+		const reveal: RevealState = {
+			round:
+				getGamePhase(game) === "finished"
+					? currentRound
+					: currentRound - 1,
+			entries: [...standings].reverse(),
+			revealed: 0,
+			startedAt: new Date().toISOString(),
+		};
+		await games.update(gameId, { reveal });
+
+		await sendToGame(
+			gameId,
+			{
+				message: "Results reveal started",
+				type: "revealStarted",
+				gameId,
+				round: reveal.round,
+				total: reveal.entries.length,
+			},
+			context
+		);
+
+		return { status: 200, jsonBody: revealProgress(reveal) };
+	}
+
+	const reveal = game.reveal;
+	if (!reveal) {
+		return {
+			status: 409,
+			jsonBody: { error: "Start the reveal first" },
+		};
+	}
+	if (reveal.revealed >= reveal.entries.length) {
+		return {
+			status: 409,
+			jsonBody: { error: "Every result has been revealed" },
+		};
+	}
+
+	const revealedNow =
+		action === "next"
+			? reveal.entries.slice(reveal.revealed, reveal.revealed + 1)
+			: reveal.entries.slice(reveal.revealed);
+	reveal.revealed += revealedNow.length;
+	await games.update(gameId, { reveal });
+
+	await sendToGame(
+		gameId,
+		action === "next"
+			? {
+					message: "Result revealed",
+					type: "revealNext",
+					gameId,
+					round: reveal.round,
+					entry: revealedNow[0],
+					...revealProgress(reveal),
+			  }
+			: {
+					message: "All results revealed",
+					type: "revealAll",
+					gameId,
+					round: reveal.round,
+					// Best first, like the standings message
+					entries: [...revealedNow].reverse(),
+					...revealProgress(reveal),
+			  },
+		context
+	);
+
+	return {
+		status: 200,
+		jsonBody: { ...revealProgress(reveal), entries: revealedNow },
+	};
+}
+
+function revealProgress(reveal: RevealState) {
+	return {
+		round: reveal.round,
+		total: reveal.entries.length,
+		revealed: reveal.revealed,
+		remaining: reveal.entries.length - reveal.revealed,
+	};
+}
+
+app.http("revealResults", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: revealResults,
+});
@@ -0,0 +1,107 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
+import { requirePhase } from "../lib/gamePhase";
+import { findPromptViolations, getPromptRules } from "../lib/promptRules";
+import { requireOpenPromptWindow } from "../lib/promptWindow";
+import {
+	editPrompt,
+	getPromptVersions,
+	selectPromptVersion as selectVersion,
+} from "../lib/prompts";
+import { getStorage, Player, PreconditionFailedError } from "../lib/storage";
+import { getPromptOwner } from "../lib/teams";
+
+type SelectPromptVersionRequest = {
+	version: number;
+};
+
+// Makes one of the player's earlier versions the prompt answers are
+// generated from, or one of their team's. The same rules as submitting apply.
+export async function selectPromptVersion(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { version } = (await request.json()) as SelectPromptVersionRequest;
+	if (!Number.isInteger(version)) {
+		return { status: 400, jsonBody: { error: "version is required" } };
+	}
+
+	const { games, players } = getStorage();
+	const game = await games.get(identity.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const conflict =
+		requirePhase(game, ["prompting"], "change the final prompt") ??
+		requireOpenPromptWindow(game);
+	if (conflict) {
+		return conflict;
+	}
+
+	const player = await players.get(identity.gameId, identity.playerId);
+	if (!player) {
+		return { status: 404, jsonBody: { error: "Player not found" } };
+	}
+
+	// Versions never change once stored, so the one being restored can be
+	// checked before the edit
+	const owner = await getPromptOwner(player);
+	const chosen = getPromptVersions(owner).find((v) => v.version === version);
+	const violations = chosen
+		? findPromptViolations(chosen.prompt, getPromptRules(game))
+		: [];
+	if (violations.length > 0) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "This version breaks the game's rules",
+				violations,
+			},
+		};
+	}
+
+	let updatedPlayer: Player | undefined;
+	try {
+		updatedPlayer = await editPrompt(player, (owner) =>
+			selectVersion(owner, version, owner.team ? player : undefined)
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: { error: "The prompt changed, try again" },
+			};
+		}
+		throw error;
+	}
+	if (!updatedPlayer) {
+		return {
+			status: 404,
+			jsonBody: { error: `Prompt version ${version} not found` },
+		};
+	}
+
+	return {
+		status: 200,
+		jsonBody: { finalVersion: updatedPlayer.finalVersion },
+	};
+}
+
+app.http("selectPromptVersion", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: selectPromptVersion,
+});
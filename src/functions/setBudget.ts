@@ -0,0 +1,59 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getStorage } from "../lib/storage";
+
+type SetBudgetRequest = {
+	gameId: string;
+	// US dollars
+	budget: number;
+};
+
+// Raises or lowers a game's budget. Generation stopped by the old budget can
+// be started again once there is room.
+export async function setBudget(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, budget } = (await request.json()) as SetBudgetRequest;
+	if (!gameId || !(budget > 0)) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "gameId and a budget of a positive number of dollars are required",
+			},
+		};
+	}
+
+	const { games, usage } = getStorage();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	// Written whole so a raise also clears exceededAt
+	await games.update(gameId, { budget: { limit: budget } });
+
+	const spent = await usage.totalCost(gameId);
+	return {
+		status: 200,
+		jsonBody: { gameId, budget, spent: Math.round(spent * 10000) / 10000 },
+	};
+}
+
+app.http("setBudget", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: setBudget,
+});
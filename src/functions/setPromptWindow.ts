@@ -0,0 +1,114 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { requirePhase } from "../lib/gamePhase";
+import { broadcastPromptWindow, getPromptWindow } from "../lib/promptWindow";
+import { getCurrentRound } from "../lib/rounds";
+import { getStorage, PromptWindow } from "../lib/storage";
+
+type SetPromptWindowRequest = {
+	gameId: string;
+	// Exactly one of these
+	durationSeconds?: number;
+	deadline?: string;
+	extendBySeconds?: number;
+	autoGenerateAnswers?: boolean;
+};
+
+// Sets or extends the prompt deadline of the current round. Extending a
+// window that already closed reopens it, counting from now.
+export async function setPromptWindow(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const input = (await request.json()) as SetPromptWindowRequest;
+	if (!input.gameId) {
+		return { status: 400, jsonBody: { error: "gameId is required" } };
+	}
+
+	const options = [
+		input.durationSeconds,
+		input.deadline,
+		input.extendBySeconds,
+	].filter((value) => value !== undefined);
+	if (options.length !== 1) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "Send exactly one of durationSeconds, deadline or extendBySeconds",
+			},
+		};
+	}
+
+	const { games } = getStorage();
+	const game = await games.get(input.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const conflict = requirePhase(
+		game,
+		["lobby", "prompting"],
+		"set the prompt deadline"
+	);
+	if (conflict) {
+		return conflict;
+	}
+
+	const now = Date.now();
+	const current = getPromptWindow(game);
+	let deadline: number;
+
+	if (input.extendBySeconds !== undefined) {
+		if (!current) {
+			return {
+				status: 409,
+				jsonBody: { error: "There is no deadline to extend" },
+			};
+		}
+		deadline =
+			Math.max(new Date(current.deadline).getTime(), now) +
+			input.extendBySeconds * 1000;
+	} else if (input.durationSeconds !== undefined) {
+		deadline = now + input.durationSeconds * 1000;
+	} else {
+		deadline = new Date(input.deadline).getTime();
+	}
+
+	if (!Number.isFinite(deadline) || deadline <= now) {
+		return {
+			status: 400,
+			jsonBody: { error: "The deadline must be in the future" },
+		};
+	}
+
+	const window: PromptWindow = {
+		round: getCurrentRound(game),
+		deadline: new Date(deadline).toISOString(),
+		autoGenerateAnswers:
+			input.autoGenerateAnswers ?? current?.autoGenerateAnswers ?? false,
+	};
+
+	// Written whole so an extension also clears lockedAt
+	await games.update(game.id, { promptWindow: window });
+	await broadcastPromptWindow(game, window, context);
+
+	return { status: 200, jsonBody: window };
+}
+
+app.http("setPromptWindow", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: setPromptWindow,
+});
@@ -1,16 +1,21 @@
-import { CosmosClient } from "@azure/cosmos";
 import {
 	app,
 	HttpRequest,
 	HttpResponseInit,
 	InvocationContext,
 } from "@azure/functions";
-import { WebPubSubServiceClient } from "@azure/web-pubsub";
-import { Player } from "./playerReg";
+import { authenticatePlayer } from "../lib/auth";
+import { recordEvent } from "../lib/events";
+import { requirePhase } from "../lib/gamePhase";
+import { toPublicPlayer } from "../lib/players";
+import { findPromptViolations, getPromptRules } from "../lib/promptRules";
+import { requireOpenPromptWindow } from "../lib/promptWindow";
+import { addPromptVersion, editPrompt } from "../lib/prompts";
+import { getCurrentRound } from "../lib/rounds";
+import { getStorage, Player, PreconditionFailedError } from "../lib/storage";
+import { sendToGame } from "../lib/webPubSub";
 
 type SubmitPromptRequest = {
-	gameId: string;
-	userId: string;
 	prompt: string;
 };
 
@@ -20,51 +25,119 @@ export async function submitPrompt(
 ): Promise<HttpResponseInit> {
 	context.log(`Http function processed request for url "${request.url}"`);
 
-	const { gameId, userId, prompt } =
-		(await request.json()) as SubmitPromptRequest;
+	const { player: identity, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+	const { gameId, playerId } = identity;
+
+	const { prompt } = (await request.json()) as SubmitPromptRequest;
+	if (typeof prompt !== "string") {
+		return { status: 400, jsonBody: { error: "prompt is required" } };
+	}
 
-	const client = new CosmosClient(process.env.COSMOSDB_CONNECTION_STRING);
-	const database = client.database("mini-prompt-quiz");
-	const playerContainer = database.container("players");
+	const { games, players } = getStorage();
 
-	const player = await playerContainer.item(userId, gameId).read();
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, body: "Game not found" };
+	}
+
+	// Answers are generated from the prompts, so they lock once prompting ends
+	const conflict =
+		requirePhase(game, ["prompting"], "submit a prompt") ??
+		requireOpenPromptWindow(game);
+	if (conflict) {
+		return conflict;
+	}
+
+	// The same checks validatePrompt runs, so the UI can show them beforehand
+	const violations = findPromptViolations(prompt, getPromptRules(game));
+	if (violations.length > 0) {
+		return {
+			status: 400,
+			jsonBody: {
+				error: "The prompt breaks the game's rules",
+				violations,
+			},
+		};
+	}
+
+	const player = await players.get(gameId, playerId);
 	if (!player) {
 		return { status: 400, body: "Player not found" };
 	}
 
-	const updatedPlayer = { ...player.resource, prompt };
-
-	context.log("Updating player with prompt:", updatedPlayer);
+	// Every submission is kept as a version; the newest becomes final. Team
+	// members all edit the team's prompt.
+	let updatedPlayer: Player;
+	try {
+		updatedPlayer = await editPrompt(player, (owner) =>
+			addPromptVersion(
+				owner,
+				prompt,
+				getCurrentRound(game),
+				owner.team ? player : undefined
+			)
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: { error: "The prompt changed, try again" },
+			};
+		}
+		throw error;
+	}
 
-	await playerContainer.items.upsert(updatedPlayer);
-	await sendWebPubSubMessage(updatedPlayer, context);
+	context.log("Updated player with prompt:", toPublicPlayer(updatedPlayer));
+	const event = await recordEvent(
+		gameId,
+		playerId,
+		{
+			type: "promptSubmitted",
+			playerId: updatedPlayer.id,
+			screenName: updatedPlayer.screenName,
+			version: updatedPlayer.finalVersion,
+			characters: prompt.length,
+			round: getCurrentRound(game),
+			editedBy: updatedPlayer.team ? playerId : undefined,
+		},
+		context
+	);
+	await sendWebPubSubMessage(
+		toPublicPlayer(updatedPlayer),
+		event?.sequence,
+		context
+	);
 
-	return { status: 200, body: "Prompt submitted" };
+	return {
+		status: 200,
+		jsonBody: {
+			message: "Prompt submitted",
+			version: updatedPlayer.finalVersion,
+			characters: prompt.length,
+		},
+	};
 }
 
 async function sendWebPubSubMessage(
 	player: Player,
+	sequence: number | undefined,
 	context: InvocationContext
 ) {
-	try {
-		if (!process.env.WEB_PUBSUB_CONNECTION_STRING) {
-			throw new Error("WEB_PUBSUB_CONNECTION_STRING is not set");
-		}
-
-		const serviceClient = new WebPubSubServiceClient(
-			process.env.WEB_PUBSUB_CONNECTION_STRING,
-			"miniHackathon"
-		);
-		const groupClient = serviceClient.group(player.gameId);
-		await groupClient.sendToAll({
-			message: "A player has submitted a prompt",
-			player,
-		});
-
-		context.log("Web PubSub message sent successfully");
-	} catch (error) {
-		context.error("Failed to send Web PubSub message:", error);
-	}
+	await sendToGame(
+		player.gameId,
+		player.team
+			? {
+					message: "A team prompt was edited",
+					type: "teamPromptUpdated",
+					team: player,
+					sequence,
+			  }
+			: { message: "A player has submitted a prompt", player, sequence },
+		context
+	);
 }
 
 app.http("submitPrompt", {
@@ -0,0 +1,66 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeHostForGame } from "../lib/auth";
+import { getGamePhase, isGamePhase, transitionGame } from "../lib/gamePhase";
+import { getStorage } from "../lib/storage";
+
+type TransitionGameRequest = {
+	gameId: string;
+	phase: string;
+};
+
+export async function transitionGameHandler(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { gameId, phase } = (await request.json()) as TransitionGameRequest;
+
+	if (!gameId || !phase) {
+		return {
+			status: 400,
+			jsonBody: { error: "gameId and phase are required" },
+		};
+	}
+
+	if (!isGamePhase(phase)) {
+		return {
+			status: 400,
+			jsonBody: { error: `Unknown game phase "${phase}"` },
+		};
+	}
+
+	const { games } = getStorage();
+
+	const game = await games.get(gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const { host, denied } = authorizeHostForGame(request, game);
+	if (denied) {
+		return denied;
+	}
+
+	const from = getGamePhase(game);
+	const conflict = await transitionGame(games, game, phase, context, host.id);
+	if (conflict) {
+		return conflict;
+	}
+
+	return {
+		status: 200,
+		jsonBody: { gameId, from, phase },
+	};
+}
+
+app.http("transitionGame", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: transitionGameHandler,
+});
@@ -0,0 +1,66 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeAdmin } from "../lib/auth";
+import { checkJudge, JudgeInput, withQuestionIds } from "../lib/judges";
+import { getStorage, Judge } from "../lib/storage";
+
+// Changes any of theme, asst_id, instructions, questions, sampleQuestions,
+// promptRules or disabled. Sending disabled: true takes the judge out of rotation for new
+// games without deleting it.
+export async function updateJudge(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const input = (await request.json()) as JudgeInput;
+	if (!input?.id) {
+		return { status: 400, jsonBody: { error: "Missing judge id" } };
+	}
+
+	const { judges } = getStorage();
+	const existingJudge = await judges.get(input.id);
+	if (!existingJudge) {
+		return { status: 404, jsonBody: { error: "Judge not found" } };
+	}
+
+	const judge: Judge = {
+		...existingJudge,
+		theme: input.theme ?? existingJudge.theme,
+		asst_id: input.asst_id ?? existingJudge.asst_id,
+		instructions: input.instructions ?? existingJudge.instructions,
+		questions: input.questions
+			? withQuestionIds(input.questions)
+			: existingJudge.questions,
+		sampleQuestions: input.sampleQuestions
+			? withQuestionIds(input.sampleQuestions)
+			: existingJudge.sampleQuestions,
+		promptRules: input.promptRules ?? existingJudge.promptRules,
+		disabled: input.disabled ?? existingJudge.disabled,
+		updatedAt: new Date().toISOString(),
+	};
+
+	const invalid = await checkJudge(judge);
+	if (invalid) {
+		return invalid;
+	}
+
+	const updatedJudge = await judges.upsert(judge);
+
+	return { status: 200, jsonBody: updatedJudge };
+}
+
+app.http("updateJudge", {
+	methods: ["POST", "PUT"],
+	authLevel: "anonymous",
+	handler: updateJudge,
+});
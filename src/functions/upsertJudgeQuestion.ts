@@ -0,0 +1,75 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authorizeAdmin } from "../lib/auth";
+import { v4 as uuid } from "uuid";
+import { invalidJudgeResponse, validateQuestion } from "../lib/judges";
+import { getStorage, JudgeQuestion } from "../lib/storage";
+
+type UpsertJudgeQuestionRequest = {
+	judgeId: string;
+	question: Partial<JudgeQuestion>;
+};
+
+// Adds a question to a judge, or replaces the one with the same id
+export async function upsertJudgeQuestion(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Processing request for URL "${request.url}"`);
+
+	const { denied } = authorizeAdmin(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { judgeId, question } =
+		(await request.json()) as UpsertJudgeQuestionRequest;
+	if (!judgeId || !question) {
+		return {
+			status: 400,
+			jsonBody: { error: "judgeId and question are required" },
+		};
+	}
+
+	const { judges } = getStorage();
+	const judge = await judges.get(judgeId);
+	if (!judge) {
+		return { status: 404, jsonBody: { error: "Judge not found" } };
+	}
+
+	const newQuestion: JudgeQuestion = {
+		...question,
+		id: question.id ?? uuid(),
+		content: question.content,
+	};
+
+	const violations = validateQuestion(newQuestion);
+	if (violations.length > 0) {
+		return invalidJudgeResponse(violations);
+	}
+
+	const exists = judge.questions.some((q) => q.id === newQuestion.id);
+	const questions = exists
+		? judge.questions.map((q) =>
+				q.id === newQuestion.id ? newQuestion : q
+		  )
+		: [...judge.questions, newQuestion];
+
+	await judges.upsert({
+		...judge,
+		questions,
+		updatedAt: new Date().toISOString(),
+	});
+
+	return { status: exists ? 200 : 201, jsonBody: newQuestion };
+}
+
+app.http("upsertJudgeQuestion", {
+	methods: ["POST", "PUT"],
+	authLevel: "anonymous",
+	handler: upsertJudgeQuestion,
+});
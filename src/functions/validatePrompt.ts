@@ -0,0 +1,61 @@
+import {
+	app,
+	HttpRequest,
+	HttpResponseInit,
+	InvocationContext,
+} from "@azure/functions";
+import { authenticatePlayer } from "../lib/auth";
+import {
+	estimateTokens,
+	findPromptViolations,
+	getPromptRules,
+} from "../lib/promptRules";
+import { getStorage } from "../lib/storage";
+
+type ValidatePromptRequest = {
+	prompt: string;
+};
+
+// Checks a draft prompt against the game's rules without submitting it, so
+// the UI can list every problem while the player is still typing
+export async function validatePrompt(
+	request: HttpRequest,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	context.log(`Http function processed request for url "${request.url}"`);
+
+	const { player, denied } = authenticatePlayer(request);
+	if (denied) {
+		return denied;
+	}
+
+	const { prompt } = (await request.json()) as ValidatePromptRequest;
+	if (typeof prompt !== "string") {
+		return { status: 400, jsonBody: { error: "prompt is required" } };
+	}
+
+	const game = await getStorage().games.get(player.gameId);
+	if (!game) {
+		return { status: 404, jsonBody: { error: "Game not found" } };
+	}
+
+	const rules = getPromptRules(game);
+	const violations = findPromptViolations(prompt, rules);
+
+	return {
+		status: 200,
+		jsonBody: {
+			valid: violations.length === 0,
+			violations,
+			characters: prompt.trim().length,
+			estimatedTokens: estimateTokens(prompt.trim()),
+			rules,
+		},
+	};
+}
+
+app.http("validatePrompt", {
+	methods: ["POST"],
+	authLevel: "anonymous",
+	handler: validatePrompt,
+});
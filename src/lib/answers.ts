@@ -0,0 +1,120 @@
+import { InvocationContext } from "@azure/functions";
+import { classifyError, describeErrorKind, LLMProvider } from "./llm";
+import { AIAnswer, JudgeQuestion, Player } from "./storage";
+import { addCall } from "./usage";
+
+export interface AIAnswerError {
+	playerId: string;
+	questionId: string;
+	error: string;
+	details?: string;
+}
+
+// A question may come up again in a later round, so the round is part of the id
+export function answerId(
+	gameId: string,
+	playerId: string,
+	questionId: string,
+	round: number
+) {
+	return `${gameId}-r${round}-${playerId}-${questionId}`;
+}
+
+// Runs one player's assistant prompt against one judge question
+export async function generateAnswer(
+	provider: LLMProvider,
+	player: Player,
+	judgeQ: JudgeQuestion,
+	round: number,
+	context: InvocationContext
+): Promise<AIAnswer | AIAnswerError> {
+	try {
+		const sanitizedPrompt = sanitizeInput(player.prompt ?? "");
+		const sanitizedQuestion = sanitizeInput(judgeQ.content);
+
+		// Combine the assistant's prompt with the judge's question using a more structured approach
+		const combinedPrompt = createPrompt(sanitizedPrompt, sanitizedQuestion);
+
+		// Add logging before making the API call
+		context.log(
+			`Sending request to ${provider.name} for player ${player.id} and question ${judgeQ.id}`
+		);
+
+		const response = await provider.complete({
+			messages: [
+				{
+					role: "user",
+					content: combinedPrompt,
+				},
+			],
+			temperature: 0.7,
+			maxTokens: 800,
+		});
+
+		// Check if we have a valid response
+		if (response.content === null) {
+			context.log(
+				`Empty response received for player ${player.id} and question ${judgeQ.id}`
+			);
+			return {
+				playerId: player.id,
+				questionId: judgeQ.id,
+				error: "Empty response from AI service",
+			};
+		}
+
+		return {
+			id: answerId(player.gameId, player.id, judgeQ.id, round),
+			gameId: player.gameId,
+			playerId: player.id,
+			playerName: player.screenName || "Unknown Player",
+			questionId: judgeQ.id,
+			round,
+			question: judgeQ.content,
+			assistantPrompt: player.prompt,
+			promptVersion: player.finalVersion,
+			answer: response.content,
+			usage: addCall(undefined, response.model, response.usage),
+			timestamp: new Date().toISOString(),
+		};
+	} catch (error) {
+		// Retries have already happened in the provider's executor
+		const { kind, message } = classifyError(error);
+		context.error(
+			`Error processing player ${player.id} with question ${judgeQ.id}: ${message}`
+		);
+
+		return {
+			playerId: player.id,
+			questionId: judgeQ.id,
+			error: describeErrorKind(kind),
+			details: message,
+		};
+	}
+}
+
+// Keeps what the player wrote, including markdown, code and non-English
+// text, and only drops control characters and normalizes line endings.
+// What a prompt may contain is up to the game's rules, see lib/promptRules.
+function sanitizeInput(input: string): string {
+	if (!input) return "";
+
+	return input
+		.replace(/\r\n?/g, "\n")
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, "")
+		.trim();
+}
+
+// Create a structured prompt to reduce content filter triggers
+export function createPrompt(
+	assistantPrompt: string,
+	question: string
+): string {
+	return `You are an AI assistant with the following characteristics:
+${assistantPrompt}
+
+Please respond to this question in a helpful, accurate, and appropriate manner:
+"${question}"
+
+Keep your answer concise (no more than 1-2 sentences).`;
+}
@@ -0,0 +1,15 @@
+import { v4 as uuid } from "uuid";
+import { AuditEntry, getStorage } from "./storage";
+
+// Adds an entry to the game's audit log. Entries are never changed or removed.
+export async function recordAudit(
+	entry: Omit<AuditEntry, "id" | "at">
+): Promise<AuditEntry> {
+	const stored: AuditEntry = {
+		...entry,
+		id: uuid(),
+		at: new Date().toISOString(),
+	};
+	await getStorage().audit.append(stored);
+	return stored;
+}
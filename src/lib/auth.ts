@@ -0,0 +1,247 @@
+import { HttpRequest, HttpResponseInit } from "@azure/functions";
+import { createHash, createHmac, randomInt, timingSafeEqual } from "crypto";
+import { Game } from "./storage";
+
+export interface HostIdentity {
+	id: string;
+	// Admins hold an API key and may manage every game and judge
+	role: "admin" | "host";
+	// A host token is scoped to these games and/or every game of an event
+	gameIds?: string[];
+	eventId?: string;
+}
+
+// A player session, bound to one player in one game
+export interface PlayerIdentity {
+	gameId: string;
+	playerId: string;
+}
+
+type TokenClaims = Record<string, unknown> & { exp: number };
+
+const PLAYER_TOKEN_TTL_SECONDS = 12 * 3600;
+
+function base64url(value: Buffer | string) {
+	return Buffer.from(value).toString("base64url");
+}
+
+function getTokenSecret(): string {
+	if (!process.env.AUTH_TOKEN_SECRET) {
+		throw new Error("AUTH_TOKEN_SECRET is not set");
+	}
+	return process.env.AUTH_TOKEN_SECRET;
+}
+
+function sign(payload: string) {
+	return base64url(
+		createHmac("sha256", getTokenSecret()).update(payload).digest()
+	);
+}
+
+// Tokens are "<base64url claims>.<base64url HMAC-SHA256 of the claims>"
+export function signToken(
+	claims: Record<string, unknown>,
+	expiresInSeconds: number
+): string {
+	const payload = base64url(
+		JSON.stringify({
+			...claims,
+			exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+		})
+	);
+	return `${payload}.${sign(payload)}`;
+}
+
+// Returns the claims of a valid, unexpired token and undefined otherwise
+export function verifyToken<T extends TokenClaims>(
+	token: string
+): T | undefined {
+	const [payload, signature] = token.split(".");
+	if (!payload || !signature) {
+		return undefined;
+	}
+
+	const expected = Buffer.from(sign(payload));
+	const actual = Buffer.from(signature);
+	if (
+		expected.length !== actual.length ||
+		!timingSafeEqual(expected, actual)
+	) {
+		return undefined;
+	}
+
+	try {
+		const claims = JSON.parse(
+			Buffer.from(payload, "base64url").toString("utf8")
+		) as T;
+		return claims.exp > Date.now() / 1000 ? claims : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+export function getBearerToken(request: HttpRequest): string | undefined {
+	const header = request.headers.get("authorization");
+	const match = header?.match(/^Bearer\s+(.+)$/i);
+	return match?.[1];
+}
+
+function isAuthDisabled() {
+	return process.env.AUTH_DISABLED === "true";
+}
+
+function matchesApiKey(key: string): boolean {
+	const keys = (process.env.ADMIN_API_KEYS ?? "")
+		.split(",")
+		.map((k) => k.trim())
+		.filter(Boolean);
+
+	return keys.some((candidate) => {
+		const expected = Buffer.from(candidate);
+		const actual = Buffer.from(key);
+		return (
+			expected.length === actual.length &&
+			timingSafeEqual(expected, actual)
+		);
+	});
+}
+
+const unauthorized: HttpResponseInit = {
+	status: 401,
+	headers: { "WWW-Authenticate": "Bearer" },
+	jsonBody: { error: "A valid host token or API key is required" },
+};
+
+function forbidden(error: string): HttpResponseInit {
+	return { status: 403, jsonBody: { error } };
+}
+
+// Reads the caller's host identity from an x-api-key header or a host
+// token in the Authorization header. Set AUTH_DISABLED=true to treat every
+// caller as an admin when running locally.
+export function authenticateHost(request: HttpRequest): {
+	host?: HostIdentity;
+	denied?: HttpResponseInit;
+} {
+	if (isAuthDisabled()) {
+		return { host: { id: "local-admin", role: "admin" } };
+	}
+
+	const apiKey = request.headers.get("x-api-key");
+	if (apiKey && matchesApiKey(apiKey)) {
+		return { host: { id: "admin", role: "admin" } };
+	}
+
+	const token = getBearerToken(request);
+	const claims = token
+		? verifyToken<TokenClaims & HostIdentity>(token)
+		: undefined;
+	if (!claims || claims.role !== "host") {
+		return { denied: unauthorized };
+	}
+
+	return {
+		host: {
+			id: claims.id,
+			role: "host",
+			gameIds: claims.gameIds,
+			eventId: claims.eventId,
+		},
+	};
+}
+
+export function canManageGame(
+	host: HostIdentity,
+	game: Pick<Game, "id" | "hostId" | "eventId">
+): boolean {
+	return (
+		host.role === "admin" ||
+		game.hostId === host.id ||
+		(host.gameIds ?? []).includes(game.id) ||
+		(!!host.eventId && host.eventId === game.eventId)
+	);
+}
+
+// The shared guard for host routes that act on one game
+export function authorizeHostForGame(
+	request: HttpRequest,
+	game: Pick<Game, "id" | "hostId" | "eventId">
+): { host?: HostIdentity; denied?: HttpResponseInit } {
+	const { host, denied } = authenticateHost(request);
+	if (denied) {
+		return { denied };
+	}
+	if (!canManageGame(host, game)) {
+		return { denied: forbidden("You are not a host of this game") };
+	}
+	return { host };
+}
+
+// For routes that are not tied to one game, such as managing judges
+export function authorizeAdmin(request: HttpRequest): {
+	host?: HostIdentity;
+	denied?: HttpResponseInit;
+} {
+	const { host, denied } = authenticateHost(request);
+	if (denied) {
+		return { denied };
+	}
+	if (host.role !== "admin") {
+		return { denied: forbidden("Only admins can do this") };
+	}
+	return { host };
+}
+
+export function createHostToken(
+	host: Omit<HostIdentity, "role">,
+	expiresInSeconds: number
+): string {
+	return signToken({ ...host, role: "host" }, expiresInSeconds);
+}
+
+export function createPlayerToken(identity: PlayerIdentity): string {
+	return signToken({ ...identity, role: "player" }, PLAYER_TOKEN_TTL_SECONDS);
+}
+
+// The shared guard for player routes. The game and player always come from
+// the token, never from the request body.
+export function authenticatePlayer(request: HttpRequest): {
+	player?: PlayerIdentity;
+	denied?: HttpResponseInit;
+} {
+	const token = getBearerToken(request);
+	const claims = token
+		? verifyToken<TokenClaims & PlayerIdentity>(token)
+		: undefined;
+	if (!claims || claims.role !== "player") {
+		return {
+			denied: {
+				status: 401,
+				headers: { "WWW-Authenticate": "Bearer" },
+				jsonBody: { error: "A valid player session token is required" },
+			},
+		};
+	}
+
+	return { player: { gameId: claims.gameId, playerId: claims.playerId } };
+}
+
+// Unambiguous characters, so codes can be read aloud or off a screen
+const RECOVERY_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export function generateRecoveryCode(length = 6): string {
+	let code = "";
+	for (let i = 0; i < length; i++) {
+		code +=
+			RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)];
+	}
+	return code;
+}
+
+// Only the hash is stored; salting with the player id stops a leaked hash
+// being reused for another player
+export function hashRecoveryCode(playerId: string, code: string): string {
+	return createHash("sha256")
+		.update(`${playerId}:${code.trim().toUpperCase()}`)
+		.digest("hex");
+}
@@ -0,0 +1,75 @@
+import { HttpResponseInit, InvocationContext } from "@azure/functions";
+import { requirePhase } from "./gamePhase";
+import { updatePlayerScores } from "./judging";
+import { broadcastStandings } from "./standings";
+import { Game, getStorage, Judgement, OriginalScores } from "./storage";
+import { sendToGame } from "./webPubSub";
+
+// Judgement lists are rewritten while answering and judging, so they can only
+// be corrected between rounds or after the game
+export function requireCorrectablePhase(
+	game: Game,
+	action: string
+): HttpResponseInit | undefined {
+	return requirePhase(game, ["prompting", "finished"], action);
+}
+
+export function findJudgement(
+	game: Game,
+	judgementId: string
+): { judgement?: Judgement; index: number } {
+	const index = (game.judgements ?? []).findIndex(
+		(j) => j.id === judgementId
+	);
+	return { judgement: game.judgements?.[index], index };
+}
+
+export function scoresOf(judgement: Judgement): OriginalScores {
+	return {
+		contextScore: judgement.contextScore,
+		technicalScore: judgement.technicalScore,
+		clarityScore: judgement.clarityScore,
+		totalScore: judgement.totalScore,
+		justification: judgement.justification,
+	};
+}
+
+// Stores the corrected judgement in place and recomputes every player's
+// totals, so the leaderboard and standings follow straight away. Throws
+// PreconditionFailedError if the judgement moved in the meantime.
+export async function saveCorrectedJudgement(
+	game: Game,
+	index: number,
+	judgement: Judgement,
+	context: InvocationContext
+) {
+	const { games } = getStorage();
+	await games.replaceListItem(game.id, "judgements", index, judgement);
+
+	const scoresChanged =
+		game.judgements?.[index]?.totalScore !== judgement.totalScore;
+	if (!scoresChanged) {
+		return;
+	}
+
+	const updatedGame = await games.get(game.id);
+	await updatePlayerScores(
+		updatedGame,
+		updatedGame.judgements ?? [],
+		context
+	);
+
+	await sendToGame(
+		game.id,
+		{
+			message: "A score was corrected",
+			type: "scoreCorrected",
+			gameId: game.id,
+			judgementId: judgement.id,
+			playerId: judgement.playerId,
+			totalScore: judgement.totalScore,
+		},
+		context
+	);
+	await broadcastStandings(updatedGame, context);
+}
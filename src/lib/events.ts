@@ -0,0 +1,64 @@
+import { InvocationContext } from "@azure/functions";
+import { v4 as uuid } from "uuid";
+import { GameEvent, GameEventData, getStorage } from "./storage";
+
+export const DEFAULT_TIMELINE_PAGE = 200;
+export const MAX_TIMELINE_PAGE = 1000;
+
+// How long a missing sequence number is waited for. Numbers are taken before
+// their event is written, so a lower one can still be on its way; after this
+// long its event is taken to have failed to record.
+const SEQUENCE_GAP_WAIT_MS = 10 * 1000;
+
+// Adds an event to the game's timeline. The sequence comes from a counter
+// incremented in one operation, so concurrent workers each get their own.
+// Live messages carry the sequence so clients know where to catch up from.
+// Like sendToGame, failures are logged and swallowed: the change the event
+// describes has already been made.
+export async function recordEvent(
+	gameId: string,
+	actor: string,
+	data: GameEventData,
+	context: InvocationContext
+): Promise<GameEvent | undefined> {
+	const { counters, events } = getStorage();
+	try {
+		const { count } = await counters.increment(`gameEvents:${gameId}`, 1);
+		const event: GameEvent = {
+			...data,
+			id: uuid(),
+			gameId,
+			sequence: count,
+			actor,
+			at: new Date().toISOString(),
+		};
+		await events.append(event);
+		return event;
+	} catch (error) {
+		context.error(`Failed to record ${data.type} event:`, error);
+		return undefined;
+	}
+}
+
+// The events from a page, oldest first, up to the first sequence number that
+// is missing but may still be written. Clients catching up from the last
+// sequence they saw would otherwise never get the late event.
+export function takeSettledEvents(
+	page: GameEvent[],
+	since: number,
+	now = Date.now()
+): GameEvent[] {
+	const settled: GameEvent[] = [];
+	let expected = since + 1;
+	for (const event of page) {
+		if (
+			event.sequence !== expected &&
+			now - Date.parse(event.at) < SEQUENCE_GAP_WAIT_MS
+		) {
+			break;
+		}
+		settled.push(event);
+		expected = event.sequence + 1;
+	}
+	return settled;
+}
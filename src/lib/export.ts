@@ -0,0 +1,262 @@
+import { getFinalVersion, getPromptVersions } from "./prompts";
+import { getTotalRounds, roundOf } from "./rounds";
+import { Game, Player, PromptVersion, StandingsEntry } from "./storage";
+
+export type ExportFormat = "json" | "csv" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "csv", "html"];
+
+export interface ExportAnswer {
+	round: number;
+	playerId: string;
+	playerName: string;
+	email?: string;
+	questionId: string;
+	question: string;
+	prompt: string;
+	promptVersion?: number;
+	answer: string;
+	status?: string;
+	contextScore?: number;
+	technicalScore?: number;
+	clarityScore?: number;
+	totalScore?: number;
+	justification?: string;
+	scoreStdDev?: number;
+	needsReview?: boolean;
+}
+
+export interface ExportBundle {
+	game: {
+		id: string;
+		theme: string;
+		status: string;
+		totalRounds: number;
+		exportedAt: string;
+	};
+	standings: StandingsEntry[];
+	players: {
+		id: string;
+		name: string;
+		email?: string;
+		totalScore?: number;
+		roundScores: number[];
+		prompt?: string;
+		finalVersion?: number;
+		promptVersions: PromptVersion[];
+	}[];
+	answers: ExportAnswer[];
+}
+
+// Everything worth keeping from a game, with one answer per player, round
+// and question. Emails are left out unless includeEmails is set.
+export function buildExport(
+	game: Game,
+	players: Player[],
+	standings: StandingsEntry[],
+	includeEmails: boolean
+): ExportBundle {
+	const emails = new Map(players.map((p) => [p.id, p.email]));
+	const judgements = game.judgements ?? [];
+
+	const answers = (game.aiResponses ?? [])
+		.map((response): ExportAnswer => {
+			const judgement = judgements.find(
+				(j) => j.aiAnswerId === response.id
+			);
+			return {
+				round: roundOf(response),
+				playerId: response.playerId,
+				playerName: response.playerName,
+				email: includeEmails
+					? emails.get(response.playerId)
+					: undefined,
+				questionId: response.questionId,
+				question: response.question,
+				prompt: response.assistantPrompt,
+				promptVersion: response.promptVersion,
+				answer: response.answer,
+				status: judgement?.status ?? (judgement ? "judged" : undefined),
+				contextScore: judgement?.contextScore,
+				technicalScore: judgement?.technicalScore,
+				clarityScore: judgement?.clarityScore,
+				totalScore: judgement?.totalScore,
+				justification: judgement?.justification,
+				scoreStdDev: judgement?.scoreStdDev,
+				needsReview: judgement?.needsReview,
+			};
+		})
+		.sort(
+			(a, b) =>
+				a.round - b.round ||
+				a.playerName.localeCompare(b.playerName) ||
+				a.questionId.localeCompare(b.questionId)
+		);
+
+	return {
+		game: {
+			id: game.id,
+			theme: game.judge?.theme,
+			status: game.status,
+			totalRounds: getTotalRounds(game),
+			exportedAt: new Date().toISOString(),
+		},
+		standings,
+		players: players.map((player) => ({
+			id: player.id,
+			name: player.screenName,
+			email: includeEmails ? player.email : undefined,
+			totalScore: player.totalScore,
+			roundScores: player.roundScores ?? [],
+			prompt: player.prompt,
+			finalVersion: getFinalVersion(player),
+			promptVersions: getPromptVersions(player),
+		})),
+		answers,
+	};
+}
+
+const CSV_COLUMNS: (keyof ExportAnswer)[] = [
+	"round",
+	"playerId",
+	"playerName",
+	"email",
+	"questionId",
+	"question",
+	"prompt",
+	"promptVersion",
+	"answer",
+	"status",
+	"contextScore",
+	"technicalScore",
+	"clarityScore",
+	"totalScore",
+	"justification",
+	"scoreStdDev",
+	"needsReview",
+];
+
+function csvCell(value: unknown): string {
+	let text = value === undefined || value === null ? "" : String(value);
+	// Stop spreadsheets from running player text as a formula
+	if (/^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(bundle: ExportBundle, includeEmails: boolean): string {
+	const columns = CSV_COLUMNS.filter(
+		(column) => includeEmails || column !== "email"
+	);
+	const lines = [
+		columns.join(","),
+		...bundle.answers.map((answer) =>
+			columns.map((column) => csvCell(answer[column])).join(",")
+		),
+	];
+	return lines.join("\r\n") + "\r\n";
+}
+
+function escapeHtml(value: unknown): string {
+	return (value === undefined || value === null ? "" : String(value))
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+function tableRow(cells: unknown[], tag = "td"): string {
+	return `<tr>${cells
+		.map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`)
+		.join("")}</tr>`;
+}
+
+function describeScore(answer: ExportAnswer): string {
+	if (answer.totalScore === undefined) {
+		return "Not judged";
+	}
+	const score = `Score ${answer.totalScore} (context ${answer.contextScore}, technical ${answer.technicalScore}, clarity ${answer.clarityScore})`;
+	return answer.scoreStdDev === undefined
+		? score
+		: `${score}, judges' spread ${answer.scoreStdDev}`;
+}
+
+// A single page with inline styles, so it can be mailed or printed as is
+export function toHtml(bundle: ExportBundle): string {
+	const { game } = bundle;
+
+	const standingsRows = bundle.standings
+		.map((entry) =>
+			tableRow([
+				entry.rank,
+				entry.name,
+				entry.score,
+				entry.roundScores.join(" / "),
+				entry.breakdown.context,
+				entry.breakdown.technical,
+				entry.breakdown.clarity,
+			])
+		)
+		.join("\n");
+
+	const playerSections = bundle.players
+		.map((player) => {
+			const answers = bundle.answers
+				.filter((answer) => answer.playerId === player.id)
+				.map(
+					(answer) => `<div class="answer">
+<h4>Round ${answer.round}: ${escapeHtml(answer.question)}</h4>
+<pre>${escapeHtml(answer.answer)}</pre>
+<p class="score">${escapeHtml(describeScore(answer))}</p>
+<p>${escapeHtml(answer.justification)}</p>
+</div>`
+				)
+				.join("\n");
+
+			return `<section>
+<h3>${escapeHtml(player.name)}${
+				player.email ? ` &lt;${escapeHtml(player.email)}&gt;` : ""
+			}</h3>
+<p>Total score: ${escapeHtml(player.totalScore ?? 0)}</p>
+<h4>Final prompt</h4>
+<pre>${escapeHtml(player.prompt)}</pre>
+${answers}
+</section>`;
+		})
+		.join("\n");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(game.theme)} results</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #222; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 0.3em 0.6em; text-align: left; }
+pre { white-space: pre-wrap; background: #f5f5f5; padding: 0.6em; }
+section { border-top: 2px solid #ddd; margin-top: 2em; page-break-inside: avoid; }
+.score { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(game.theme)}</h1>
+<p>Game ${escapeHtml(game.id)}, ${
+		game.totalRounds
+	} round(s), exported ${escapeHtml(game.exportedAt)}</p>
+<h2>Standings</h2>
+<table>
+${tableRow(
+	["Rank", "Player", "Score", "Rounds", "Context", "Technical", "Clarity"],
+	"th"
+)}
+${standingsRows}
+</table>
+<h2>Players</h2>
+${playerSections}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,141 @@
+import { HttpResponseInit, InvocationContext } from "@azure/functions";
+import { GameRepository, PreconditionFailedError } from "./storage";
+import { recordEvent } from "./events";
+import { sendToGame } from "./webPubSub";
+
+export type GamePhase =
+	| "lobby"
+	| "prompting"
+	| "answering"
+	| "judging"
+	| "finished"
+	| "cancelled";
+
+export const GAME_PHASES: GamePhase[] = [
+	"lobby",
+	"prompting",
+	"answering",
+	"judging",
+	"finished",
+	"cancelled",
+];
+
+// Allowed moves out of each phase. The backwards moves (answering -> prompting,
+// judging -> answering) let a host recover after a failed generation run, and
+// judging -> prompting starts the next round of a multi-round game.
+const TRANSITIONS: Record<GamePhase, GamePhase[]> = {
+	lobby: ["prompting", "cancelled"],
+	prompting: ["answering", "cancelled"],
+	answering: ["judging", "prompting", "cancelled"],
+	judging: ["finished", "prompting", "answering", "cancelled"],
+	finished: [],
+	cancelled: [],
+};
+
+export function isGamePhase(value: unknown): value is GamePhase {
+	return GAME_PHASES.includes(value as GamePhase);
+}
+
+// Games created before phases existed were stored with status "waiting"
+export function getGamePhase(game: { status?: string }): GamePhase {
+	if (!game.status || game.status === "waiting") {
+		return "lobby";
+	}
+	return game.status as GamePhase;
+}
+
+export function canTransition(from: GamePhase, to: GamePhase): boolean {
+	return TRANSITIONS[from].includes(to);
+}
+
+// Returns a 409 response if the game is not in one of the allowed phases
+export function requirePhase(
+	game: { status?: string },
+	allowed: GamePhase[],
+	action: string
+): HttpResponseInit | undefined {
+	const phase = getGamePhase(game);
+	if (allowed.includes(phase)) {
+		return undefined;
+	}
+
+	return {
+		status: 409,
+		jsonBody: {
+			error: `Cannot ${action} while the game is ${phase}`,
+			phase,
+			allowedPhases: allowed,
+		},
+	};
+}
+
+// Moves the game to a new phase and broadcasts the change to the game's group.
+// The update is conditional on the phase we read, so two concurrent requests
+// cannot both perform the same transition. Returns a 409 response on failure.
+// actor is the host who asked for the change, "system" when it was automatic.
+export async function transitionGame(
+	games: GameRepository,
+	game: { id: string; status?: string },
+	to: GamePhase,
+	context: InvocationContext,
+	actor = "system"
+): Promise<HttpResponseInit | undefined> {
+	const from = getGamePhase(game);
+	if (!canTransition(from, to)) {
+		return {
+			status: 409,
+			jsonBody: {
+				error: `Cannot move game from ${from} to ${to}`,
+				phase: from,
+				allowedPhases: TRANSITIONS[from],
+			},
+		};
+	}
+
+	const changedAt = new Date().toISOString();
+
+	try {
+		await games.update(
+			game.id,
+			{ status: to, statusChangedAt: changedAt },
+			{ ifStatus: game.status }
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return {
+				status: 409,
+				jsonBody: {
+					error: "The game phase was changed by another request",
+					phase: from,
+				},
+			};
+		}
+		throw error;
+	}
+
+	game.status = to;
+	context.log(`Game ${game.id} moved from ${from} to ${to}`);
+
+	const event = await recordEvent(
+		game.id,
+		actor,
+		{ type: "phaseChanged", from, to },
+		context
+	);
+
+	await sendToGame(
+		game.id,
+		{
+			message: "Game phase changed",
+			type: "phaseChanged",
+			gameId: game.id,
+			from,
+			to,
+			changedAt,
+			sequence: event?.sequence,
+		},
+		context
+	);
+
+	return undefined;
+}
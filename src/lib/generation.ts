@@ -0,0 +1,337 @@
+import { HttpResponseInit, InvocationContext } from "@azure/functions";
+import { answerId } from "./answers";
+import { getGamePhase, transitionGame } from "./gamePhase";
+import { startJob } from "./jobs";
+import { getCurrentRound, getRoundQuestions, roundOf } from "./rounds";
+import {
+	AIAnswer,
+	Game,
+	getStorage,
+	JudgeQuestion,
+	Player,
+	WorkUnit,
+} from "./storage";
+import { getEntrants } from "./teams";
+import {
+	findRunningJob,
+	markPending,
+	selectUnits,
+	stageRunningResponse,
+	UnitTarget,
+} from "./units";
+import { requireBudget } from "./usage";
+
+// Locks prompts and queues answer generation for the game's current round.
+// Shared by the generateAnswers route and the prompt deadline timer. Run
+// again while the game is answering, it only queues the answers that are
+// missing or failed, or all of them with force.
+export async function startAnswerGeneration(
+	game: Game,
+	context: InvocationContext,
+	force = false
+): Promise<HttpResponseInit> {
+	const { games, players: playerRepository, units } = getStorage();
+	const gameId = game.id;
+
+	const round = getCurrentRound(game);
+	const judgeQuestions: JudgeQuestion[] = getRoundQuestions(game, round);
+	if (judgeQuestions.length === 0) {
+		return {
+			status: 404,
+			jsonBody: {
+				error: "No judge questions found",
+			},
+		};
+	}
+
+	// Fetch players for the specific gameId; a team answers for its members
+	const players: Player[] = getEntrants(
+		await playerRepository.listByGame(gameId)
+	);
+
+	// If no players are found, return
+	if (players.length === 0) {
+		return {
+			status: 404,
+			jsonBody: {
+				error: "No players found for this game",
+			},
+		};
+	}
+
+	const resuming = getGamePhase(game) === "answering";
+	const stageUnits = (await units.listByGame(gameId, "answers")).filter(
+		(unit) => unit.round === round
+	);
+	if (resuming) {
+		const running = await findRunningJob(stageUnits);
+		if (running) {
+			return stageRunningResponse("answers", running);
+		}
+	}
+
+	const targets: UnitTarget[] = players.flatMap((player) =>
+		judgeQuestions.map((judgeQ) => ({
+			round,
+			playerId: player.id,
+			questionId: judgeQ.id,
+			aiAnswerId: answerId(gameId, player.id, judgeQ.id, round),
+		}))
+	);
+	const storedIds = new Set(
+		(game.aiResponses ?? []).map((response) => response.id)
+	);
+	const selected = selectUnits(
+		"answers",
+		targets,
+		stageUnits,
+		(target) => storedIds.has(target.aiAnswerId),
+		force
+	);
+	if (selected.length === 0) {
+		return {
+			status: 200,
+			jsonBody: {
+				message: "Every answer of this round is already generated",
+				gameId,
+				round,
+			},
+		};
+	}
+
+	const overBudget = await requireBudget(game, context);
+	if (overBudget) {
+		return overBudget;
+	}
+
+	// Lock prompts before generating; a second click gets a 409 here
+	if (!resuming) {
+		const conflict = await transitionGame(
+			games,
+			game,
+			"answering",
+			context
+		);
+		if (conflict) {
+			return conflict;
+		}
+	}
+
+	// Workers append their answers to this list as they finish. Answers
+	// about to be generated again are dropped first, with their judgements,
+	// so the judging stage picks them up again; the rest are kept.
+	const selectedIds = new Set(selected.map((target) => target.aiAnswerId));
+	await games.update(gameId, {
+		aiResponses: (game.aiResponses ?? []).filter(
+			(response) => !selectedIds.has(response.id)
+		),
+		judgements: (game.judgements ?? []).filter(
+			(judgement) => !selectedIds.has(judgement.aiAnswerId)
+		),
+	});
+
+	// Queue one unit per player and question; progress is pushed to the game's group
+	const job = await startJob(
+		gameId,
+		"answers",
+		selected.map(({ playerId, questionId }) => ({
+			playerId,
+			questionId,
+			round,
+		})),
+		context,
+		(job) => markPending(gameId, "answers", selected, stageUnits, job)
+	);
+
+	return {
+		status: 202,
+		jsonBody: {
+			message: "Queued answer generation",
+			gameId: gameId,
+			jobId: job.id,
+			round,
+			totalPlayers: players.length,
+			totalQuestions: judgeQuestions.length,
+			expectedTotal: job.total,
+			skipped: targets.length - selected.length,
+		},
+	};
+}
+
+function judgementTarget(response: AIAnswer): UnitTarget {
+	return {
+		round: roundOf(response),
+		playerId: response.playerId,
+		questionId: response.questionId,
+		aiAnswerId: response.id,
+	};
+}
+
+// Moves the game to judging and queues judgements for the current round's
+// answers. Run again while the game is judging, it only queues the answers
+// that have no judgement or whose judgement failed, or all of them with force.
+export async function startJudging(
+	game: Game,
+	context: InvocationContext,
+	force = false
+): Promise<HttpResponseInit> {
+	const { games, units } = getStorage();
+
+	// Only this round's answers; earlier rounds are already judged
+	const round = getCurrentRound(game);
+	const aiResponses: AIAnswer[] = (game.aiResponses || []).filter(
+		(response) => roundOf(response) === round
+	);
+	if (aiResponses.length === 0) {
+		return {
+			status: 404,
+			jsonBody: {
+				error: "No AI responses found for judgement",
+			},
+		};
+	}
+
+	const resuming = getGamePhase(game) === "judging";
+	const stageUnits = await units.listByGame(game.id, "judgements");
+	if (resuming) {
+		const running = await findRunningJob(stageUnits);
+		if (running) {
+			return stageRunningResponse("judgements", running);
+		}
+	}
+
+	const judgedIds = new Set(
+		(game.judgements ?? []).map((judgement) => judgement.aiAnswerId)
+	);
+	const targets = aiResponses.map(judgementTarget);
+	const selected = selectUnits(
+		"judgements",
+		targets,
+		stageUnits,
+		(target) => judgedIds.has(target.aiAnswerId),
+		force
+	);
+	if (selected.length === 0) {
+		return {
+			status: 200,
+			jsonBody: {
+				message: "Every answer of this round is already judged",
+				gameId: game.id,
+				round,
+			},
+		};
+	}
+
+	const overBudget = await requireBudget(game, context);
+	if (overBudget) {
+		return overBudget;
+	}
+
+	if (!resuming) {
+		const conflict = await transitionGame(games, game, "judging", context);
+		if (conflict) {
+			return conflict;
+		}
+	}
+
+	// The last unit to finish updates the player scores and moves the game
+	// to the next round or finished
+	const job = await queueJudgements(game, selected, stageUnits, context);
+
+	return {
+		status: 202,
+		jsonBody: {
+			message: "Queued judgements",
+			gameId: game.id,
+			jobId: job.id,
+			round,
+			expectedTotal: job.total,
+			skipped: targets.length - selected.length,
+		},
+	};
+}
+
+// Queues every failed judgement of the game again, whatever its round,
+// along with any left pending by a job that was abandoned. Judgements
+// blocked by the content filter are left alone. Once the game has moved past
+// the round, finishing the job only updates the scores.
+export async function retryFailedJudgements(
+	game: Game,
+	context: InvocationContext
+): Promise<HttpResponseInit> {
+	const stageUnits = await getStorage().units.listByGame(
+		game.id,
+		"judgements"
+	);
+	const running = await findRunningJob(stageUnits);
+	if (running) {
+		return stageRunningResponse("judgements", running);
+	}
+
+	const answerIds = new Set(
+		(game.aiResponses ?? []).map((response) => response.id)
+	);
+	const selected: UnitTarget[] = stageUnits
+		// With no job running, pending units were left by an abandoned one
+		.filter(
+			(unit) =>
+				(unit.status === "failed" || unit.status === "pending") &&
+				answerIds.has(unit.aiAnswerId)
+		)
+		.map(({ round, playerId, questionId, aiAnswerId }) => ({
+			round,
+			playerId,
+			questionId,
+			aiAnswerId,
+		}));
+	if (selected.length === 0) {
+		return {
+			status: 200,
+			jsonBody: {
+				message: "No failed judgements to retry",
+				gameId: game.id,
+			},
+		};
+	}
+
+	const overBudget = await requireBudget(game, context);
+	if (overBudget) {
+		return overBudget;
+	}
+
+	const job = await queueJudgements(game, selected, stageUnits, context);
+
+	return {
+		status: 202,
+		jsonBody: {
+			message: "Queued failed judgements again",
+			gameId: game.id,
+			jobId: job.id,
+			expectedTotal: job.total,
+		},
+	};
+}
+
+// Workers append their judgements to the game's list as they finish, so
+// the judgements being redone are dropped from it first
+async function queueJudgements(
+	game: Game,
+	selected: UnitTarget[],
+	stageUnits: WorkUnit[],
+	context: InvocationContext
+) {
+	const selectedIds = new Set(selected.map((target) => target.aiAnswerId));
+	await getStorage().games.update(game.id, {
+		judgements: (game.judgements ?? []).filter(
+			(judgement) => !selectedIds.has(judgement.aiAnswerId)
+		),
+	});
+
+	return startJob(
+		game.id,
+		"judgements",
+		selected.map((target) => ({ aiAnswerId: target.aiAnswerId })),
+		context,
+		(job) => markPending(game.id, "judgements", selected, stageUnits, job)
+	);
+}
@@ -0,0 +1,153 @@
+import {
+	AIAnswer,
+	Game,
+	InjectionAction,
+	InjectionRules,
+	InjectionSignal,
+	Judgement,
+} from "./storage";
+
+export const INJECTION_ACTIONS: InjectionAction[] = [
+	"flag",
+	"penalize",
+	"review",
+];
+
+export const DEFAULT_INJECTION_PENALTY_PERCENT = 50;
+
+const DEFAULT_INJECTION_RULES: InjectionRules = {
+	action: "flag",
+	penaltyPercent: DEFAULT_INJECTION_PENALTY_PERCENT,
+};
+
+// Heuristics for text aimed at the judge rather than at the question. They
+// are deliberately loose: a match only flags the answer, and what happens
+// next is up to the game's rules.
+const INJECTION_PATTERNS: { rule: string; pattern: RegExp }[] = [
+	{
+		rule: "ignoreInstructions",
+		pattern:
+			/\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(instructions?|rules|prompts?|guidelines|rubric)\b/i,
+	},
+	{
+		rule: "addressesJudge",
+		pattern:
+			/\b(judges?|graders?|evaluators?|scorers?)\s*[:,-]\s*(please\s+)?(award|give|assign|score|rate|ignore)\b/i,
+	},
+	{
+		rule: "scoreDemand",
+		pattern:
+			/\b(award|give|assign|grant|score|rate)\b[^.\n]{0,40}(\b\d{2,3}\s*(points|pts|\/\s*\d{2,3}|out of)|full marks|top marks|perfect score|max(imum)? (score|points))/i,
+	},
+	{
+		rule: "scoreFields",
+		pattern:
+			/["']?\b(final|context|technical|clarity)[ _]?score\b["']?\s*[:=]\s*\d/i,
+	},
+	{
+		rule: "roleMarker",
+		pattern:
+			/(^|\n)\s*(system|assistant|developer)\s*:|<\|?(im_start|im_end|system|endoftext)\|?>|\[\/?(INST|SYS)\]/i,
+	},
+	{
+		rule: "newInstructions",
+		pattern:
+			/\b(new|updated|real) (instructions|rules|system prompt)\b|\byou are (now )?(the|a) (judge|grader|evaluator)\b/i,
+	},
+	{
+		rule: "delimiterEscape",
+		pattern: /<<<\s*(end\s+)?(question|answer)|<\/?(question|answer)>/i,
+	},
+];
+
+const EXCERPT_LENGTH = 80;
+
+export function getInjectionRules(
+	game: Pick<Game, "injectionRules">
+): InjectionRules {
+	return game.injectionRules ?? DEFAULT_INJECTION_RULES;
+}
+
+// Names of the rules the text matched, in pattern order
+export function detectInjection(text: string | undefined): string[] {
+	return findMatches(text ?? "").map((match) => match.rule);
+}
+
+function findMatches(text: string) {
+	return INJECTION_PATTERNS.flatMap(({ rule, pattern }) => {
+		const match = pattern.exec(text);
+		if (!match) {
+			return [];
+		}
+		const start = Math.max(0, match.index - 20);
+		return [
+			{
+				rule,
+				excerpt: text
+					.slice(start, start + EXCERPT_LENGTH)
+					.replace(/\s+/g, " ")
+					.trim(),
+			},
+		];
+	});
+}
+
+// Checks the prompt the answer was generated from as well as the answer,
+// since a prompt can tell the assistant to address the judge
+export function findInjectionSignals(response: AIAnswer): InjectionSignal[] {
+	return [
+		...findMatches(response.assistantPrompt ?? "").map((match) => ({
+			source: "prompt" as const,
+			...match,
+		})),
+		...findMatches(response.answer ?? "").map((match) => ({
+			source: "answer" as const,
+			...match,
+		})),
+	];
+}
+
+// Records suspected injections on the judgement and applies the game's
+// rules: flag only, take a share off each criterion, or send the answer to
+// the host's review list
+export function applyInjectionRules(
+	judgement: Judgement,
+	response: AIAnswer,
+	rules: InjectionRules
+): Judgement {
+	const signals = findInjectionSignals(response);
+	if (signals.length === 0) {
+		return judgement;
+	}
+
+	if (rules.action === "review") {
+		return {
+			...judgement,
+			needsReview: true,
+			injection: { signals, action: rules.action },
+		};
+	}
+
+	if (rules.action !== "penalize" || judgement.status === "unjudged") {
+		return { ...judgement, injection: { signals, action: rules.action } };
+	}
+
+	const factor = 1 - rules.penaltyPercent / 100;
+	const contextScore = Math.round(judgement.contextScore * factor);
+	const technicalScore = Math.round(judgement.technicalScore * factor);
+	const clarityScore = Math.round(judgement.clarityScore * factor);
+
+	return {
+		...judgement,
+		contextScore,
+		technicalScore,
+		clarityScore,
+		totalScore: contextScore + technicalScore + clarityScore,
+		injection: {
+			signals,
+			action: rules.action,
+			penaltyPercent: rules.penaltyPercent,
+			totalBeforePenalty: judgement.totalScore,
+		},
+	};
+}
@@ -0,0 +1,54 @@
+import { InvocationContext } from "@azure/functions";
+import { v4 as uuid } from "uuid";
+import { getStorage, Job, JobType } from "../storage";
+import { getJobQueue } from "./queue";
+import { WorkItem } from "./types";
+
+export * from "./types";
+export { failWorkItem, processWorkItem } from "./processor";
+export {
+	getJobQueue,
+	getJobQueueBackend,
+	JOB_QUEUE_NAME,
+	jobQueueOutputs,
+	setJobQueue,
+} from "./queue";
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown
+	? Omit<T, K>
+	: never;
+
+// Records a new job and queues one work item per unit. prepare runs once the
+// job is recorded and before any of its items can be picked up.
+export async function startJob(
+	gameId: string,
+	type: JobType,
+	units: DistributiveOmit<WorkItem, "jobId" | "gameId" | "type">[],
+	context: InvocationContext,
+	prepare?: (job: Job) => Promise<void>
+): Promise<Job> {
+	const now = new Date().toISOString();
+	const job = await getStorage().jobs.create({
+		id: uuid(),
+		gameId,
+		type,
+		status: "running",
+		total: units.length,
+		completed: 0,
+		failed: 0,
+		createdAt: now,
+		updatedAt: now,
+	});
+
+	if (prepare) {
+		await prepare(job);
+	}
+
+	const items = units.map(
+		(unit) => ({ ...unit, jobId: job.id, gameId, type } as WorkItem)
+	);
+	await getJobQueue().enqueue(items, context);
+
+	context.log(`Started ${type} job ${job.id} with ${items.length} items`);
+	return job;
+}
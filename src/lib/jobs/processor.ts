@@ -0,0 +1,509 @@
+import { InvocationContext } from "@azure/functions";
+import { answerId, generateAnswer } from "../answers";
+import { recordAudit } from "../audit";
+import {
+	findJudgement,
+	saveCorrectedJudgement,
+	scoresOf,
+} from "../corrections";
+import { applyInjectionRules, getInjectionRules } from "../injection";
+import { judgeAnswer, updatePlayerScores } from "../judging";
+import { getLLMProvider } from "../llm";
+import { getJudgePanel } from "../panel";
+import { getCurrentRound, getTotalRounds, roundOf } from "../rounds";
+import { recordEvent } from "../events";
+import { getGamePhase, transitionGame } from "../gamePhase";
+import { broadcastScoreUpdate, broadcastStandings } from "../standings";
+import {
+	Game,
+	getStorage,
+	Job,
+	Judgement,
+	PreconditionFailedError,
+} from "../storage";
+import { unitId, unitStatusOf } from "../units";
+import { recordUsage, stopIfOverBudget } from "../usage";
+import { sendToGame } from "../webPubSub";
+import { WorkItem } from "./types";
+
+type AnswerItem = Extract<WorkItem, { type: "answers" }>;
+type JudgementItem = Extract<WorkItem, { type: "judgements" }>;
+type ReevaluationItem = Extract<WorkItem, { type: "reevaluations" }>;
+
+// Units skipped because the game's budget is spent count as failed with this
+const BUDGET_EXCEEDED = "The game's budget is used up";
+
+const MAX_APPEAL_ATTEMPTS = 3;
+
+// How long a delivery of an item is remembered as counted, well past the
+// queue's retries
+const PROGRESS_MARKER_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Handles one queued unit and records it against its job. Model failures
+// count the unit as failed; storage errors are thrown so the queue retries
+// the message.
+export async function processWorkItem(
+	item: WorkItem,
+	context: InvocationContext
+) {
+	context.log(`Processing ${item.type} item for job ${item.jobId}`);
+
+	// A redelivered message whose unit was already finished by this job
+	// only needs its progress counted
+	const unit = await getWorkUnit(item);
+	if (unit && unit.jobId === item.jobId && unit.status !== "pending") {
+		await recordProgress(item, unit.error, context);
+		return;
+	}
+
+	let error: string | undefined;
+	if (item.type === "answers") {
+		error = await processAnswerItem(item, context);
+	} else if (item.type === "judgements") {
+		error = await processJudgementItem(item, context);
+	} else {
+		error = await processReevaluationItem(item, context);
+	}
+
+	if (unit) {
+		await getStorage().units.upsert({
+			...unit,
+			status: unitStatusOf(error),
+			error,
+			updatedAt: new Date().toISOString(),
+		});
+	}
+	await recordProgress(item, error, context);
+}
+
+// Called for a message the queue gave up on after its retries. The unit
+// counts as failed so the job still finishes and the unit can be retried.
+export async function failWorkItem(
+	item: WorkItem,
+	error: string,
+	context: InvocationContext
+) {
+	context.warn(`Giving up on ${item.type} item for job ${item.jobId}`);
+
+	// Finished before the message failed, so it keeps its own result
+	const unit = await getWorkUnit(item);
+	if (unit && unit.jobId === item.jobId && unit.status !== "pending") {
+		await recordProgress(item, unit.error, context);
+		return;
+	}
+	if (unit) {
+		await getStorage().units.upsert({
+			...unit,
+			status: "failed",
+			error,
+			updatedAt: new Date().toISOString(),
+		});
+	}
+	if (item.type === "reevaluations") {
+		await returnAppeal(item, error);
+	}
+	await recordProgress(item, error, context);
+}
+
+// Answers and judgements are tracked per unit, see lib/units. Units queued
+// before tracking existed have no record.
+async function getWorkUnit(item: WorkItem) {
+	if (item.type === "reevaluations") {
+		return undefined;
+	}
+	return getStorage().units.get(item.gameId, itemKey(item));
+}
+
+// Identifies what an item works on, so every delivery of it has the same key
+function itemKey(item: WorkItem) {
+	if (item.type === "answers") {
+		return unitId(
+			"answers",
+			answerId(item.gameId, item.playerId, item.questionId, item.round)
+		);
+	}
+	if (item.type === "judgements") {
+		return unitId("judgements", item.aiAnswerId);
+	}
+	return `reevaluations-${item.judgementId}`;
+}
+
+async function processAnswerItem(
+	item: AnswerItem,
+	context: InvocationContext
+): Promise<string | undefined> {
+	const { games, players } = getStorage();
+
+	const game = await games.get(item.gameId);
+	const player = await players.get(item.gameId, item.playerId);
+	const question = game?.judge?.questions.find(
+		(q) => q.id === item.questionId
+	);
+	if (!game || !player || !question) {
+		return "Game, player or question no longer exists";
+	}
+	if (await stopIfOverBudget(game, context)) {
+		return BUDGET_EXCEEDED;
+	}
+
+	const result = await generateAnswer(
+		getLLMProvider("answer"),
+		player,
+		question,
+		item.round,
+		context
+	);
+	if ("error" in result) {
+		return result.details
+			? `${result.error}: ${result.details}`
+			: result.error;
+	}
+
+	// Left out by append if a redelivered message already stored it
+	await games.append(item.gameId, "aiResponses", result);
+	await recordEvent(
+		item.gameId,
+		"system",
+		{
+			type: "answerGenerated",
+			aiAnswerId: result.id,
+			playerId: result.playerId,
+			playerName: result.playerName,
+			questionId: result.questionId,
+			round: item.round,
+		},
+		context
+	);
+	await recordUsage(game, "answer", result.usage, {
+		playerId: result.playerId,
+		targetId: result.id,
+	});
+	return undefined;
+}
+
+async function processJudgementItem(
+	item: JudgementItem,
+	context: InvocationContext
+): Promise<string | undefined> {
+	const { games } = getStorage();
+
+	const game = await games.get(item.gameId);
+	const response = game?.aiResponses?.find((r) => r.id === item.aiAnswerId);
+	if (!game || !response) {
+		return "Game or AI answer no longer exists";
+	}
+	if (await stopIfOverBudget(game, context)) {
+		return BUDGET_EXCEEDED;
+	}
+
+	const judgement = applyInjectionRules(
+		await judgeAnswer(
+			getLLMProvider("judge"),
+			getJudgePanel(game),
+			response,
+			context
+		),
+		response,
+		getInjectionRules(game)
+	);
+
+	// Unjudged answers are still stored so they show up with 0 points. The
+	// judgement id comes from the answer's, so a redelivery can't add it twice.
+	await games.append(item.gameId, "judgements", judgement);
+	await recordJudgementEvent(judgement, false, context);
+	await recordUsage(game, "judgement", judgement.usage, {
+		playerId: judgement.playerId,
+		targetId: judgement.id,
+	});
+
+	// Read back so the running score includes judgements other workers added
+	const updatedGame = await games.get(item.gameId);
+	const runningScore = (updatedGame?.judgements ?? [])
+		.filter((j) => j.playerId === judgement.playerId)
+		.reduce((total, j) => total + j.totalScore, 0);
+	await broadcastScoreUpdate(judgement, runningScore, context);
+	return judgement.status === "unjudged" ? judgement.error : undefined;
+}
+
+// Judges an appealed answer again and replaces the judgement, keeping the
+// first run's scores. If the judges fail again the appeal goes back to the
+// host.
+async function processReevaluationItem(
+	item: ReevaluationItem,
+	context: InvocationContext
+): Promise<string | undefined> {
+	const game = await getStorage().games.get(item.gameId);
+	const { judgement, index } = game
+		? findJudgement(game, item.judgementId)
+		: { judgement: undefined, index: -1 };
+	const response = game?.aiResponses?.find(
+		(r) => r.id === judgement?.aiAnswerId
+	);
+	if (!judgement || !response) {
+		return "Game, judgement or AI answer no longer exists";
+	}
+
+	// Without budget left the appeal goes back to the host like a failed run
+	const overBudget = await stopIfOverBudget(game, context);
+	const fresh: Judgement = overBudget
+		? { ...judgement, status: "unjudged", error: BUDGET_EXCEEDED }
+		: applyInjectionRules(
+				await judgeAnswer(
+					getLLMProvider("judge"),
+					getJudgePanel(game),
+					response,
+					context
+				),
+				response,
+				getInjectionRules(game)
+		  );
+	const now = new Date().toISOString();
+	if (!overBudget) {
+		await recordUsage(game, "reevaluation", fresh.usage, {
+			playerId: judgement.playerId,
+			targetId: judgement.id,
+		});
+	}
+
+	const updated: Judgement =
+		fresh.status === "judged"
+			? {
+					...fresh,
+					id: judgement.id,
+					original: judgement.original ?? scoresOf(judgement),
+					appeal: judgement.appeal && {
+						...judgement.appeal,
+						status: "resolved",
+						resolvedAt: now,
+						resolution: `Re-evaluated: ${judgement.totalScore} -> ${fresh.totalScore}`,
+					},
+			  }
+			: {
+					...judgement,
+					appeal: judgement.appeal && {
+						...judgement.appeal,
+						status: "pending",
+						resolution: `Re-evaluation failed: ${fresh.error}`,
+					},
+			  };
+
+	try {
+		await saveCorrectedJudgement(game, index, updated, context);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			const conflict = "The judgements changed while re-evaluating";
+			await returnAppeal(item, conflict);
+			return conflict;
+		}
+		throw error;
+	}
+
+	if (fresh.status !== "judged") {
+		return fresh.error;
+	}
+
+	await recordJudgementEvent(updated, true, context);
+	await recordAudit({
+		gameId: game.id,
+		action: "reevaluation",
+		actor: "system",
+		actorRole: "system",
+		targetId: judgement.id,
+		before: scoresOf(judgement),
+		after: scoresOf(updated),
+		reason: judgement.appeal?.reason,
+	});
+	return undefined;
+}
+
+// Hands an appeal whose re-evaluation could not be stored back to the host
+// with the reason, so it can be resolved again
+async function returnAppeal(item: ReevaluationItem, reason: string) {
+	const { games } = getStorage();
+	for (let attempt = 1; ; attempt++) {
+		const game = await games.get(item.gameId);
+		const { judgement, index } = game
+			? findJudgement(game, item.judgementId)
+			: { judgement: undefined, index: -1 };
+		if (judgement?.appeal?.status !== "reevaluating") {
+			return;
+		}
+		try {
+			await games.replaceListItem(item.gameId, "judgements", index, {
+				...judgement,
+				appeal: {
+					...judgement.appeal,
+					status: "pending",
+					resolution: `Re-evaluation failed: ${reason}`,
+				},
+			});
+			return;
+		} catch (error) {
+			if (
+				!(error instanceof PreconditionFailedError) ||
+				attempt >= MAX_APPEAL_ATTEMPTS
+			) {
+				throw error;
+			}
+		}
+	}
+}
+
+async function recordJudgementEvent(
+	judgement: Judgement,
+	reevaluation: boolean,
+	context: InvocationContext
+) {
+	await recordEvent(
+		judgement.gameId,
+		"system",
+		{
+			type: "judgementRecorded",
+			judgementId: judgement.id,
+			aiAnswerId: judgement.aiAnswerId,
+			playerId: judgement.playerId,
+			questionId: judgement.questionId,
+			round: roundOf(judgement),
+			status: judgement.status ?? "judged",
+			totalScore: judgement.totalScore,
+			...(reevaluation ? { reevaluation } : {}),
+		},
+		context
+	);
+}
+
+// Counts each item once per job, however often it is delivered. The marker
+// is set before the job's counters, so a failure in between leaves the job
+// short and it goes stale, see lib/units, rather than counting twice.
+async function recordProgress(
+	item: WorkItem,
+	error: string | undefined,
+	context: InvocationContext
+) {
+	const { counters, jobs } = getStorage();
+
+	const { count } = await counters.increment(
+		`jobProgress:${item.jobId}:${itemKey(item)}`,
+		1,
+		new Date(Date.now() + PROGRESS_MARKER_TTL_MS).toISOString()
+	);
+	if (count > 1) {
+		// Counted by an earlier delivery, which may have failed finishing
+		// the job
+		const job = await jobs.get(item.jobId);
+		if (job && isFinished(job)) {
+			await finishJob(job, context);
+		}
+		return;
+	}
+
+	const job = await jobs.recordProgress(
+		item.jobId,
+		error ? { failed: 1 } : { completed: 1 }
+	);
+
+	await sendToGame(
+		item.gameId,
+		{
+			message: "Job progress",
+			type: "jobProgress",
+			jobId: job.id,
+			jobType: job.type,
+			completed: job.completed,
+			failed: job.failed,
+			total: job.total,
+			item,
+			error,
+		},
+		context
+	);
+
+	if (isFinished(job)) {
+		await finishJob(job, context);
+	}
+}
+
+function isFinished(job: Job) {
+	return job.status === "running" && job.completed + job.failed >= job.total;
+}
+
+// Only the caller that moves the job out of running finishes it. If that
+// fails the job goes back to running, so a redelivery can finish it.
+async function finishJob(job: Job, context: InvocationContext) {
+	const { games, jobs } = getStorage();
+
+	try {
+		await jobs.update(
+			job.id,
+			{ status: "completed", finishedAt: new Date().toISOString() },
+			{ ifStatus: "running" }
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			return;
+		}
+		throw error;
+	}
+
+	try {
+		// Retried judgements of an earlier round only change the scores
+		if (job.type === "judgements") {
+			const game = await games.get(job.gameId);
+			await updatePlayerScores(game, game.judgements ?? [], context);
+			await broadcastStandings(game, context);
+			if (getGamePhase(game) === "judging") {
+				await finishRound(game, context);
+			}
+		}
+	} catch (error) {
+		await jobs.update(job.id, { status: "running" });
+		throw error;
+	}
+
+	context.log(
+		`Job ${job.id} finished: ${job.completed} completed, ${job.failed} failed`
+	);
+
+	await sendToGame(
+		job.gameId,
+		{
+			message: "Job completed",
+			type: "jobCompleted",
+			jobId: job.id,
+			jobType: job.type,
+			completed: job.completed,
+			failed: job.failed,
+			total: job.total,
+		},
+		context
+	);
+}
+
+// After the last round the game is over; otherwise players go back to
+// refining their prompts for the next round
+async function finishRound(game: Game, context: InvocationContext) {
+	const { games } = getStorage();
+	const round = getCurrentRound(game);
+	const totalRounds = getTotalRounds(game);
+
+	await sendToGame(
+		game.id,
+		{
+			message: "Round completed",
+			type: "roundCompleted",
+			gameId: game.id,
+			round,
+			totalRounds,
+		},
+		context
+	);
+
+	if (round >= totalRounds) {
+		await transitionGame(games, game, "finished", context);
+		return;
+	}
+
+	// Bumped first so clients reacting to the phase change see the new round
+	await games.update(game.id, { currentRound: round + 1 });
+	await transitionGame(games, game, "prompting", context);
+}
@@ -0,0 +1,61 @@
+import { InvocationContext, output } from "@azure/functions";
+import { processWorkItem } from "./processor";
+import { JobQueue, WorkItem } from "./types";
+
+export const JOB_QUEUE_NAME = process.env.JOB_QUEUE_NAME || "game-jobs";
+
+// JOB_QUEUE selects how work items are run:
+//   storage (default) - an Azure Storage queue, consumed by processJobItem
+//   local             - in this process, for running without Azure Storage
+export function getJobQueueBackend(): "storage" | "local" {
+	return process.env.JOB_QUEUE === "local" ? "local" : "storage";
+}
+
+export const jobQueueOutput = output.storageQueue({
+	queueName: JOB_QUEUE_NAME,
+	connection: "AzureWebJobsStorage",
+});
+
+// Add to the extraOutputs of any HTTP function that starts a job
+export const jobQueueOutputs =
+	getJobQueueBackend() === "storage" ? [jobQueueOutput] : [];
+
+// The output binding only sends what was set last, so batches from several
+// jobs started in one invocation are added together
+class StorageJobQueue implements JobQueue {
+	async enqueue(items: WorkItem[], context: InvocationContext) {
+		const queued =
+			(context.extraOutputs.get(jobQueueOutput) as WorkItem[]) ?? [];
+		context.extraOutputs.set(jobQueueOutput, [...queued, ...items]);
+	}
+}
+
+// Runs the items after the current request has returned, mimicking a queue
+class LocalJobQueue implements JobQueue {
+	async enqueue(items: WorkItem[], context: InvocationContext) {
+		setImmediate(() => {
+			items.forEach((item) =>
+				processWorkItem(item, context).catch((error) =>
+					context.error(`Local job item failed:`, error)
+				)
+			);
+		});
+	}
+}
+
+let queue: JobQueue | undefined;
+
+export function getJobQueue(): JobQueue {
+	if (!queue) {
+		queue =
+			getJobQueueBackend() === "local"
+				? new LocalJobQueue()
+				: new StorageJobQueue();
+	}
+	return queue;
+}
+
+// Lets tests capture work items instead of running them
+export function setJobQueue(value: JobQueue | undefined) {
+	queue = value;
+}
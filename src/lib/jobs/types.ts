@@ -0,0 +1,30 @@
+import { InvocationContext } from "@azure/functions";
+
+// One unit of queued work: an answer for a (player, question) pair in a
+// round, a judgement of one stored AI answer, or a fresh judgement of an
+// appealed one
+export type WorkItem =
+	| {
+			jobId: string;
+			gameId: string;
+			type: "answers";
+			playerId: string;
+			questionId: string;
+			round: number;
+	  }
+	| {
+			jobId: string;
+			gameId: string;
+			type: "judgements";
+			aiAnswerId: string;
+	  }
+	| {
+			jobId: string;
+			gameId: string;
+			type: "reevaluations";
+			judgementId: string;
+	  };
+
+export interface JobQueue {
+	enqueue(items: WorkItem[], context: InvocationContext): Promise<void>;
+}
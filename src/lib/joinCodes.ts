@@ -0,0 +1,63 @@
+import { Game, GameRepository } from "./storage";
+
+// No I or O, which are easily confused with 1 and 0 on a projector
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const JOIN_CODE_LENGTH = 5;
+const MAX_ATTEMPTS = 10;
+
+const JOIN_CODE_PATTERN = new RegExp(
+	`^[${JOIN_CODE_ALPHABET}]{${JOIN_CODE_LENGTH}}$`
+);
+
+export function normalizeJoinCode(code: string): string {
+	return code.trim().toUpperCase();
+}
+
+export function isJoinCode(value: string): boolean {
+	return JOIN_CODE_PATTERN.test(normalizeJoinCode(value));
+}
+
+function randomJoinCode(): string {
+	let code = "";
+	for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+		code +=
+			JOIN_CODE_ALPHABET[
+				Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)
+			];
+	}
+	return code;
+}
+
+// A code not used by any game still in play. Codes of finished games are free
+// to be handed out again.
+export async function createJoinCode(games: GameRepository): Promise<string> {
+	for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+		const code = randomJoinCode();
+		if (!(await games.getByJoinCode(code))) {
+			return code;
+		}
+	}
+	throw new Error("Could not find a free join code");
+}
+
+// Accepts either a game id or a join code. A code only resolves while its
+// game is in play.
+export async function findGame(
+	games: GameRepository,
+	gameIdOrCode: string
+): Promise<Game | undefined> {
+	if (isJoinCode(gameIdOrCode)) {
+		return games.getByJoinCode(normalizeJoinCode(gameIdOrCode));
+	}
+	return games.get(gameIdOrCode);
+}
+
+// Where the QR code sends players. JOIN_URL_BASE is the player app's join
+// page; without it the page is assumed to be /join on this host.
+export function getJoinUrl(requestUrl: string, code: string): string {
+	const base =
+		process.env.JOIN_URL_BASE || `${new URL(requestUrl).origin}/join`;
+	const url = new URL(base);
+	url.searchParams.set("code", code);
+	return url.toString();
+}
@@ -0,0 +1,232 @@
+import { InvocationContext } from "@azure/functions";
+import {
+	classifyError,
+	describeErrorKind,
+	JudgeEvaluationRequest,
+	LLMProvider,
+} from "./llm";
+import { MAX_CRITERION_SCORE } from "./llm/judgePrompt";
+import { Usage } from "./storage";
+import { addCall } from "./usage";
+
+export interface JudgementScores {
+	contextScore: number;
+	technicalScore: number;
+	clarityScore: number;
+	totalScore: number;
+	justification: string;
+}
+
+// usage covers every attempt that got a reply, including rejected ones
+export type JudgeOutcome =
+	| {
+			status: "judged";
+			scores: JudgementScores;
+			attempts: number;
+			usage?: Usage;
+	  }
+	| { status: "unjudged"; error: string; attempts: number; usage?: Usage };
+
+const CRITERIA = ["contextScore", "technicalScore", "clarityScore"] as const;
+
+// The shape judges are asked to reply with, see JUDGE_OUTPUT_FORMAT
+interface JudgementOutput {
+	contextScore: number;
+	technicalScore: number;
+	clarityScore: number;
+	finalScore: number;
+	justification: string;
+}
+
+function defaultMaxAttempts() {
+	return parseInt(process.env.JUDGE_MAX_ATTEMPTS ?? "", 10) || 3;
+}
+
+// Pulls the JSON object out of a reply, tolerating code fences and chatter
+function extractJson(reply: string): unknown {
+	const codeBlockMatch = reply.match(/```(?:json)?([\s\S]*?)```/);
+	const text = codeBlockMatch ? codeBlockMatch[1] : reply;
+
+	const start = text.indexOf("{");
+	const end = text.lastIndexOf("}");
+	if (start === -1 || end <= start) {
+		return undefined;
+	}
+
+	try {
+		return JSON.parse(text.slice(start, end + 1));
+	} catch {
+		return undefined;
+	}
+}
+
+// Assistants set up before the JSON format may still answer in markdown,
+// e.g. "**Context Score:** 51". Read those into the same shape.
+function extractLegacyMarkdown(
+	reply: string
+): Record<string, unknown> | undefined {
+	const readScore = (label: string) => {
+		const match = reply.match(
+			new RegExp(`${label}\\s+Score(?::\\*\\*|\\*\\*:|:)\\s*(\\d+)`, "i")
+		);
+		return match ? parseInt(match[1], 10) : undefined;
+	};
+	const justificationMatch = reply.match(
+		/Justification(?::\*\*|\*\*:|:)\s*([\s\S]+?)(?=\n\*\*|\n\S+:|\n?$)/i
+	);
+
+	const parsed = {
+		contextScore: readScore("Context"),
+		technicalScore: readScore("Technical"),
+		clarityScore: readScore("Clarity"),
+		finalScore: readScore("Final"),
+		justification: justificationMatch?.[1].trim(),
+	};
+	return Object.values(parsed).some((value) => value !== undefined)
+		? parsed
+		: undefined;
+}
+
+export function validateJudgementOutput(
+	output: unknown
+): { output: JudgementOutput } | { errors: string[] } {
+	if (!output || typeof output !== "object") {
+		return { errors: ["the reply is not a JSON object"] };
+	}
+
+	const value = output as Record<string, unknown>;
+	const errors: string[] = [];
+
+	for (const criterion of CRITERIA) {
+		const score = value[criterion];
+		if (!Number.isInteger(score)) {
+			errors.push(`${criterion} must be an integer`);
+		} else if (
+			(score as number) < 0 ||
+			(score as number) > MAX_CRITERION_SCORE
+		) {
+			errors.push(
+				`${criterion} must be between 0 and ${MAX_CRITERION_SCORE}`
+			);
+		}
+	}
+
+	if (!Number.isInteger(value.finalScore)) {
+		errors.push("finalScore must be an integer");
+	} else if (errors.length === 0) {
+		const sum = CRITERIA.reduce(
+			(total, criterion) => total + (value[criterion] as number),
+			0
+		);
+		if (value.finalScore !== sum) {
+			errors.push(
+				`finalScore must be the sum of the criteria (${sum}), got ${value.finalScore}`
+			);
+		}
+	}
+
+	if (
+		typeof value.justification !== "string" ||
+		value.justification.trim().length === 0
+	) {
+		errors.push("justification must be a non-empty string");
+	}
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+	return {
+		output: {
+			contextScore: value.contextScore as number,
+			technicalScore: value.technicalScore as number,
+			clarityScore: value.clarityScore as number,
+			finalScore: value.finalScore as number,
+			justification: value.justification as string,
+		},
+	};
+}
+
+export function parseJudgementOutput(
+	reply: string
+): { scores: JudgementScores } | { errors: string[] } {
+	const validated = validateJudgementOutput(
+		extractJson(reply) ?? extractLegacyMarkdown(reply)
+	);
+	if ("errors" in validated) {
+		return validated;
+	}
+
+	const value = validated.output;
+	return {
+		scores: {
+			contextScore: value.contextScore,
+			technicalScore: value.technicalScore,
+			clarityScore: value.clarityScore,
+			totalScore: value.finalScore,
+			justification: value.justification.trim(),
+		},
+	};
+}
+
+// Asks the judge to score an answer, re-asking with the validation errors
+// when the reply is malformed. Gives up after maxAttempts and reports the
+// answer as unjudged instead of throwing. A call that fails outright has
+// already been retried by the executor, so it is not asked again.
+export async function evaluateWithRepair(
+	provider: LLMProvider,
+	request: JudgeEvaluationRequest,
+	context: InvocationContext,
+	maxAttempts = defaultMaxAttempts()
+): Promise<JudgeOutcome> {
+	let feedback: string | undefined;
+	let lastError = "";
+	let usage: Usage | undefined;
+
+	for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+		try {
+			const evaluation = await provider.evaluate({
+				...request,
+				feedback,
+			});
+			usage = addCall(usage, evaluation.model, evaluation.usage);
+			context.log(evaluation.content);
+			if (evaluation.warning) {
+				context.warn(evaluation.warning);
+			}
+
+			const parsed = parseJudgementOutput(evaluation.content);
+			if ("scores" in parsed) {
+				return {
+					status: "judged",
+					scores: parsed.scores,
+					attempts: attempt,
+					usage,
+				};
+			}
+
+			lastError = parsed.errors.join("; ");
+			feedback = lastError;
+			context.warn(
+				`Judge reply rejected (attempt ${attempt}/${maxAttempts}): ${lastError}`
+			);
+		} catch (error) {
+			const { kind, message } = classifyError(error);
+			context.error(
+				`Judge call failed (attempt ${attempt}/${maxAttempts}): ${message}`
+			);
+			return {
+				status: "unjudged",
+				error: `${describeErrorKind(kind)}: ${message}`,
+				attempts: attempt,
+				usage,
+			};
+		}
+	}
+
+	return {
+		status: "unjudged",
+		error: lastError,
+		attempts: maxAttempts,
+		usage,
+	};
+}
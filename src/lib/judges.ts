@@ -0,0 +1,185 @@
+import { HttpResponseInit } from "@azure/functions";
+import { v4 as uuid } from "uuid";
+import {
+	classifyError,
+	describeErrorKind,
+	getLLMProvider,
+	LLMCallError,
+} from "./llm";
+import { validatePromptRules } from "./promptRules";
+import { Judge, JudgeQuestion } from "./storage";
+
+export type JudgeInput = Partial<
+	Omit<Judge, "questions" | "sampleQuestions">
+> & {
+	questions?: Partial<JudgeQuestion>[];
+	sampleQuestions?: Partial<JudgeQuestion>[];
+};
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === "string" && value.trim().length > 0;
+}
+
+function isObject(value: unknown): value is object {
+	return typeof value === "object" && value !== null;
+}
+
+// Questions sent without an id get a generated one. Anything that is not a
+// question is left as it was sent for validateJudge to report.
+export function withQuestionIds(
+	questions: Partial<JudgeQuestion>[]
+): JudgeQuestion[] {
+	if (!Array.isArray(questions)) {
+		return questions as JudgeQuestion[];
+	}
+	return questions.map((question) =>
+		isObject(question)
+			? {
+					...question,
+					id: question.id ?? uuid(),
+					content: question.content,
+			  }
+			: (question as JudgeQuestion)
+	);
+}
+
+export function validateQuestion(question: Partial<JudgeQuestion>): string[] {
+	if (!isObject(question)) {
+		return ["Each question must be an object"];
+	}
+
+	const violations: string[] = [];
+
+	if (!isNonEmptyString(question.id)) {
+		violations.push("Question id must be a non-empty string");
+	}
+	if (!isNonEmptyString(question.content)) {
+		violations.push(`Question ${question.id ?? ""} has no content`.trim());
+	}
+
+	return violations;
+}
+
+// Checks the shape of a judge before it is stored. Returns one message per
+// problem found; an empty list means the judge is valid.
+export async function validateJudge(judge: JudgeInput): Promise<string[]> {
+	const violations: string[] = [];
+
+	if (!isNonEmptyString(judge.id)) {
+		violations.push("id must be a non-empty string");
+	}
+	if (!isNonEmptyString(judge.theme)) {
+		violations.push("theme must be a non-empty string");
+	}
+
+	// Games draw their questions from this list, so it can't be empty
+	if (!Array.isArray(judge.questions) || judge.questions.length === 0) {
+		violations.push("questions must be a non-empty array");
+	} else {
+		const seenIds = new Set<string>();
+		for (const question of judge.questions) {
+			violations.push(...validateQuestion(question));
+			if (!isObject(question)) {
+				continue;
+			}
+			if (seenIds.has(question.id)) {
+				violations.push(
+					`Question id ${question.id} is used more than once`
+				);
+			}
+			seenIds.add(question.id);
+		}
+	}
+
+	if (judge.sampleQuestions !== undefined) {
+		if (!Array.isArray(judge.sampleQuestions)) {
+			violations.push("sampleQuestions must be an array");
+		} else {
+			const seenIds = new Set<string>();
+			for (const question of judge.sampleQuestions) {
+				violations.push(
+					...validateQuestion(question).map(
+						(violation) => `Sample question: ${violation}`
+					)
+				);
+				if (!isObject(question)) {
+					continue;
+				}
+				if (seenIds.has(question.id)) {
+					violations.push(
+						`Sample question id ${question.id} is used more than once`
+					);
+				}
+				seenIds.add(question.id);
+			}
+		}
+	}
+
+	if (judge.promptRules !== undefined) {
+		violations.push(
+			...validatePromptRules(judge.promptRules).map(
+				(violation) => `promptRules: ${violation}`
+			)
+		);
+	}
+
+	// A judge scores either through a hosted assistant or its own rubric
+	if (
+		!isNonEmptyString(judge.asst_id) &&
+		!isNonEmptyString(judge.instructions)
+	) {
+		violations.push("Either asst_id or instructions is required");
+	}
+
+	// Throws an LLMCallError when the model service can't be asked
+	if (isNonEmptyString(judge.asst_id)) {
+		const provider = getLLMProvider("judge");
+		let exists = true;
+		try {
+			exists =
+				!provider.assistantExists ||
+				(await provider.assistantExists(judge.asst_id));
+		} catch (error) {
+			throw classifyError(error);
+		}
+		if (!exists) {
+			violations.push(`Assistant ${judge.asst_id} does not exist`);
+		}
+	}
+
+	return violations;
+}
+
+// validateJudge as the response to send instead of storing the judge: 400
+// when it is invalid, 502 when its assistant could not be looked up
+export async function checkJudge(
+	judge: JudgeInput
+): Promise<HttpResponseInit | undefined> {
+	let violations: string[];
+	try {
+		violations = await validateJudge(judge);
+	} catch (error) {
+		if (!(error instanceof LLMCallError)) {
+			throw error;
+		}
+		return {
+			status: 502,
+			jsonBody: {
+				error: `Could not look up the assistant. ${describeErrorKind(
+					error.kind
+				)}: ${error.message}`,
+			},
+		};
+	}
+	return violations.length > 0 ? invalidJudgeResponse(violations) : undefined;
+}
+
+export function invalidJudgeResponse(violations: string[]) {
+	return {
+		status: 400,
+		jsonBody: {
+			error: "Invalid judge",
+			violations,
+		},
+	};
+}
@@ -0,0 +1,248 @@
+import { InvocationContext } from "@azure/functions";
+import { evaluateWithRepair } from "./judgementOutput";
+import { LLMProvider } from "./llm";
+import {
+	aggregateScores,
+	PANEL_SAMPLE_TEMPERATURE,
+	standardDeviation,
+} from "./panel";
+import { roundOf } from "./rounds";
+import { sumUsage } from "./usage";
+import {
+	AIAnswer,
+	Game,
+	getStorage,
+	JudgePanel,
+	Judgement,
+	PanelScore,
+} from "./storage";
+
+interface PlayerScore {
+	totalScores: number[];
+	contextScores: number[];
+	technicalScores: number[];
+	clarityScores: number[];
+	roundScores: number[];
+}
+
+// Scores one AI answer with every member of the panel. Never throws: an
+// answer no panel member could score comes back as an unjudged judgement
+// worth 0 points.
+export async function judgeAnswer(
+	provider: LLMProvider,
+	panel: JudgePanel,
+	response: AIAnswer,
+	context: InvocationContext
+): Promise<Judgement> {
+	const evaluations = panel.judges.flatMap((judge) =>
+		Array.from({ length: panel.samples }, (_, index) => ({
+			judge,
+			sample: index + 1,
+		}))
+	);
+
+	const outcomes = await Promise.all(
+		evaluations.map(({ judge, sample }) =>
+			evaluateWithRepair(
+				provider,
+				{
+					judge,
+					question: response.question,
+					answer: response.answer,
+					temperature:
+						panel.samples > 1
+							? PANEL_SAMPLE_TEMPERATURE
+							: undefined,
+					sample,
+				},
+				context
+			)
+		)
+	);
+
+	const judgement = {
+		id: `${response.gameId}-judge-${response.id}`,
+		gameId: response.gameId,
+		aiAnswerId: response.id,
+		playerId: response.playerId,
+		playerName: response.playerName,
+		questionId: response.questionId,
+		round: response.round,
+		attempts: outcomes.reduce((total, o) => total + o.attempts, 0),
+		usage: sumUsage(outcomes.map((o) => o.usage)),
+		timestamp: new Date().toISOString(),
+	};
+
+	const panelScores: PanelScore[] = outcomes.map((outcome, index) => ({
+		judgeId: evaluations[index].judge.id,
+		sample: evaluations[index].sample,
+		...(outcome.status === "judged"
+			? { status: "judged", ...outcome.scores }
+			: { status: "unjudged", error: outcome.error }),
+	}));
+	const judged = panelScores.filter((score) => score.status === "judged");
+
+	if (judged.length === 0) {
+		const error = panelScores[0].error;
+		context.error(`Could not judge response ${response.id}: ${error}`);
+		return {
+			...judgement,
+			contextScore: 0,
+			technicalScore: 0,
+			clarityScore: 0,
+			totalScore: 0,
+			justification: "",
+			status: "unjudged",
+			error,
+			...(evaluations.length > 1 ? { panelScores } : {}),
+		};
+	}
+
+	context.log(
+		`Received judgement for player ${response.playerId} and question ${response.questionId}`
+	);
+
+	if (evaluations.length === 1) {
+		return {
+			...judgement,
+			contextScore: judged[0].contextScore,
+			technicalScore: judged[0].technicalScore,
+			clarityScore: judged[0].clarityScore,
+			totalScore: judged[0].totalScore,
+			justification: judged[0].justification,
+			status: "judged",
+		};
+	}
+
+	return {
+		...judgement,
+		...aggregatePanelScores(judged, panel),
+		status: "judged",
+		panelScores,
+	};
+}
+
+// Aggregates each criterion across the panel; the total is their sum. The
+// justification is taken from the member whose total came closest.
+function aggregatePanelScores(judged: PanelScore[], panel: JudgePanel) {
+	const criterion = (
+		key: "contextScore" | "technicalScore" | "clarityScore"
+	) =>
+		Math.round(
+			aggregateScores(
+				judged.map((score) => score[key]),
+				panel.aggregation
+			)
+		);
+
+	const contextScore = criterion("contextScore");
+	const technicalScore = criterion("technicalScore");
+	const clarityScore = criterion("clarityScore");
+	const totalScore = contextScore + technicalScore + clarityScore;
+
+	const closest = [...judged].sort(
+		(a, b) =>
+			Math.abs(a.totalScore - totalScore) -
+			Math.abs(b.totalScore - totalScore)
+	)[0];
+	const scoreStdDev =
+		Math.round(standardDeviation(judged.map((s) => s.totalScore)) * 10) /
+		10;
+
+	return {
+		contextScore,
+		technicalScore,
+		clarityScore,
+		totalScore,
+		justification: closest.justification,
+		aggregation: panel.aggregation,
+		scoreStdDev,
+		needsReview: scoreStdDev > panel.disagreementThreshold,
+	};
+}
+
+// Writes each player's combined score over all rounds, their per-round
+// scores, the per-criterion breakdown and the game's theme to their player
+// document
+export async function updatePlayerScores(
+	game: Game,
+	judgements: Judgement[],
+	context: InvocationContext
+) {
+	const { players } = getStorage();
+
+	// Calculate summary statistics
+	const playerScores: Record<string, PlayerScore> = {};
+	judgements.forEach((judgement) => {
+		if (!playerScores[judgement.playerId]) {
+			playerScores[judgement.playerId] = {
+				totalScores: [],
+				contextScores: [],
+				technicalScores: [],
+				clarityScores: [],
+				roundScores: [],
+			};
+		}
+		playerScores[judgement.playerId].totalScores.push(judgement.totalScore);
+		playerScores[judgement.playerId].contextScores.push(
+			judgement.contextScore
+		);
+		playerScores[judgement.playerId].technicalScores.push(
+			judgement.technicalScore
+		);
+		playerScores[judgement.playerId].clarityScores.push(
+			judgement.clarityScore
+		);
+
+		const roundIndex = roundOf(judgement) - 1;
+		const roundScores = playerScores[judgement.playerId].roundScores;
+		roundScores[roundIndex] =
+			(roundScores[roundIndex] ?? 0) + judgement.totalScore;
+	});
+
+	// Update each player in the database with their combined score
+	const playerUpdatePromises = Object.keys(playerScores).map(
+		async (playerId) => {
+			try {
+				const scores = playerScores[playerId];
+				const combinedTotalScore = sum(scores.totalScores);
+
+				// Get player's current data
+				const player = await players.get(game.id, playerId);
+
+				if (player) {
+					// Update player with combined score and theme name
+					await players.update(game.id, playerId, {
+						totalScore: combinedTotalScore,
+						// Rounds the player sat out count as 0
+						roundScores: Array.from(
+							scores.roundScores,
+							(score) => score ?? 0
+						),
+						scoreBreakdown: {
+							context: sum(scores.contextScores),
+							technical: sum(scores.technicalScores),
+							clarity: sum(scores.clarityScores),
+						},
+						scoredAt: new Date().toISOString(),
+						themeName: game.judge?.theme || "Unknown Theme",
+					});
+				} else {
+					context.log(
+						`Player ${playerId} not found, cannot update score`
+					);
+				}
+			} catch (error) {
+				context.error(`Error updating player ${playerId}:`, error);
+				// Continue with other players even if one fails
+			}
+		}
+	);
+
+	// Wait for all player updates to complete
+	await Promise.all(playerUpdatePromises);
+}
+
+function sum(scores: number[]) {
+	return scores.reduce((total, score) => total + score, 0);
+}
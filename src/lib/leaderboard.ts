@@ -0,0 +1,137 @@
+import { createHash } from "crypto";
+import { Player, ScoreBreakdown } from "./storage";
+
+export const DEFAULT_PAGE_SIZE = 5;
+export const MAX_PAGE_SIZE = 100;
+
+// Where the previous page stopped. The last score and rank let a tie that
+// spans two pages keep the same rank.
+export interface LeaderboardCursor {
+	offset: number;
+	lastScore?: number;
+	lastRank?: number;
+}
+
+export function encodeCursor(cursor: LeaderboardCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): LeaderboardCursor | undefined {
+	try {
+		const cursor = JSON.parse(
+			Buffer.from(value, "base64url").toString("utf8")
+		) as LeaderboardCursor;
+		return Number.isInteger(cursor.offset) && cursor.offset >= 0
+			? cursor
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// Competition ranking ("1224"): tied scores share a rank and the next rank
+// skips the places they took
+export function rankRows<T extends { score: number }>(
+	rows: T[],
+	cursor: LeaderboardCursor
+): (T & { rank: number })[] {
+	let previous = { score: cursor.lastScore, rank: cursor.lastRank };
+
+	return rows.map((row, index) => {
+		const rank =
+			previous.rank !== undefined && row.score === previous.score
+				? previous.rank
+				: cursor.offset + index + 1;
+		previous = { score: row.score, rank };
+		return { ...row, rank };
+	});
+}
+
+// The cursor for the page after rows, or undefined on the last page
+export function nextCursor(
+	rows: { score: number; rank: number }[],
+	cursor: LeaderboardCursor,
+	hasMore: boolean
+): string | undefined {
+	if (!hasMore || rows.length === 0) {
+		return undefined;
+	}
+	const last = rows[rows.length - 1];
+	return encodeCursor({
+		offset: cursor.offset + rows.length,
+		lastScore: last.score,
+		lastRank: last.rank,
+	});
+}
+
+// A stable identity for a person across games that does not reveal the email
+export function playerKey(email: string): string {
+	return createHash("sha256")
+		.update(email.trim().toLowerCase())
+		.digest("hex")
+		.slice(0, 16);
+}
+
+export function emptyBreakdown(): ScoreBreakdown {
+	return { context: 0, technical: 0, clarity: 0 };
+}
+
+export interface AllTimeEntry {
+	playerKey: string;
+	name: string;
+	score: number;
+	games: number;
+	bestScore: number;
+	averageScore: number;
+	breakdown: ScoreBreakdown;
+	themes: string[];
+	lastPlayedAt?: string;
+}
+
+// Sums each person's scored games. The most recent screen name is shown.
+// Teams are not people and are left out.
+export function aggregateAllTime(players: Player[]): AllTimeEntry[] {
+	const entries = new Map<string, AllTimeEntry>();
+
+	for (const player of players.filter((p) => !p.team)) {
+		const key = playerKey(player.email ?? player.id);
+		const entry = entries.get(key) ?? {
+			playerKey: key,
+			name: player.screenName,
+			score: 0,
+			games: 0,
+			bestScore: 0,
+			averageScore: 0,
+			breakdown: emptyBreakdown(),
+			themes: [],
+		};
+
+		const score = player.totalScore ?? 0;
+		entry.score += score;
+		entry.games += 1;
+		entry.bestScore = Math.max(entry.bestScore, score);
+		entry.averageScore = entry.score / entry.games;
+		entry.breakdown = {
+			context:
+				entry.breakdown.context + (player.scoreBreakdown?.context ?? 0),
+			technical:
+				entry.breakdown.technical +
+				(player.scoreBreakdown?.technical ?? 0),
+			clarity:
+				entry.breakdown.clarity + (player.scoreBreakdown?.clarity ?? 0),
+		};
+		if (player.themeName && !entry.themes.includes(player.themeName)) {
+			entry.themes.push(player.themeName);
+		}
+		if (!entry.lastPlayedAt || player.scoredAt > entry.lastPlayedAt) {
+			entry.lastPlayedAt = player.scoredAt ?? entry.lastPlayedAt;
+			entry.name = player.screenName;
+		}
+
+		entries.set(key, entry);
+	}
+
+	return [...entries.values()].sort(
+		(a, b) => b.score - a.score || a.playerKey.localeCompare(b.playerKey)
+	);
+}
@@ -0,0 +1,179 @@
+import { AzureOpenAI } from "openai";
+import { classifyError, LLMCallError, LLMErrorKind } from "./execution";
+import { formatJudgeInput } from "./judgePrompt";
+import { OpenAICompatibleProvider, toTokenUsage } from "./openAICompatible";
+import {
+	JudgeEvaluationRequest,
+	JudgeEvaluationResult,
+	LLMConfig,
+} from "./types";
+
+// Azure OpenAI deployment. Judges that have an assistant (asst_id) are run
+// through the Assistants threads API; judges without one fall back to chat.
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+	readonly name: string = "azure";
+
+	constructor(protected client: AzureOpenAI, model: string) {
+		super(client, model);
+	}
+
+	async evaluate(
+		request: JudgeEvaluationRequest
+	): Promise<JudgeEvaluationResult> {
+		if (!request.judge.asst_id) {
+			return super.evaluate(request);
+		}
+
+		let thread;
+		let result: JudgeEvaluationResult;
+		let cleanupError: string | undefined;
+		try {
+			// Create a thread for this evaluation
+			thread = await this.client.beta.threads.create();
+
+			// Add the message to the thread
+			await this.client.beta.threads.messages.create(thread.id, {
+				role: "user",
+				content: formatJudgeInput(request),
+			});
+
+			// Create a run
+			const run = await this.client.beta.threads.runs.create(thread.id, {
+				assistant_id: request.judge.asst_id,
+				temperature: request.temperature,
+			});
+
+			// Poll for completion with better error handling
+			const completedRun = await this.waitForRunCompletion(
+				thread.id,
+				run.id
+			);
+
+			// Get the assistant's response
+			const messages = await this.client.beta.threads.messages.list(
+				thread.id
+			);
+
+			if (!messages.data || messages.data.length === 0) {
+				throw new Error("No messages found in thread");
+			}
+
+			const lastMessage = messages.data[0];
+			const textContent = lastMessage.content.find(
+				(content) => "text" in content
+			);
+
+			if (!textContent || !("text" in textContent)) {
+				throw new Error("No text content found in assistant response");
+			}
+
+			result = {
+				content: textContent.text.value,
+				model: completedRun.model || this.model,
+				usage: toTokenUsage(completedRun.usage),
+			};
+		} finally {
+			// Clean up the thread even if there was an error
+			if (thread?.id) {
+				try {
+					await this.client.beta.threads.del(thread.id);
+				} catch (error) {
+					cleanupError = `Could not delete thread ${thread.id}: ${
+						classifyError(error).message
+					}`;
+				}
+			}
+		}
+
+		// A leftover thread does not affect the reply, so the caller only
+		// gets told about it
+		return cleanupError ? { ...result, warning: cleanupError } : result;
+	}
+
+	async assistantExists(assistantId: string): Promise<boolean> {
+		try {
+			await this.client.beta.assistants.retrieve(assistantId);
+			return true;
+		} catch (error) {
+			if (error.status === 404) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	// Failed and expired runs are thrown as LLMCallError so the executor
+	// retries the whole evaluation, with a fresh thread, when that can help
+	private async waitForRunCompletion(threadId: string, runId: string) {
+		let attempts = 0;
+		const maxAttempts = 30; // 30 seconds timeout
+
+		while (attempts < maxAttempts) {
+			const run = await this.client.beta.threads.runs.retrieve(
+				threadId,
+				runId
+			);
+
+			switch (run.status) {
+				case "completed":
+					return run;
+				case "failed":
+					const errorDetails = run.last_error
+						? `: ${run.last_error.message}`
+						: "";
+					throw new LLMCallError(
+						runErrorKind(run.last_error),
+						`Run failed${errorDetails}`
+					);
+				case "cancelled":
+					throw new LLMCallError("fatal", "Run cancelled");
+				case "expired":
+					throw new LLMCallError("retryable", "Run expired");
+				case "requires_action":
+					throw new LLMCallError(
+						"fatal",
+						"Run requires action - not supported"
+					);
+				default:
+					// For queued, in_progress, etc.
+					await new Promise((resolve) => setTimeout(resolve, 1000));
+					attempts++;
+			}
+		}
+
+		throw new LLMCallError(
+			"retryable",
+			`Run timed out after ${maxAttempts} seconds`
+		);
+	}
+}
+
+// Other codes (invalid_prompt) are fatal unless the message says the
+// content filter stopped the run
+function runErrorKind(
+	lastError: { code: string; message: string } | null
+): LLMErrorKind {
+	switch (lastError?.code) {
+		case "rate_limit_exceeded":
+		case "server_error":
+			return "retryable";
+		default:
+			return classifyError({ message: lastError?.message }).kind ===
+				"contentFilter"
+				? "contentFilter"
+				: "fatal";
+	}
+}
+
+export function createAzureOpenAIProvider(
+	config: LLMConfig
+): AzureOpenAIProvider {
+	const client = new AzureOpenAI({
+		apiKey: config.apiKey,
+		endpoint: config.endpoint,
+		deployment: config.model,
+		apiVersion: config.apiVersion,
+		maxRetries: 0,
+	});
+	return new AzureOpenAIProvider(client, config.model);
+}
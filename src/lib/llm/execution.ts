@@ -0,0 +1,301 @@
+import {
+	ChatCompletionRequest,
+	ChatCompletionResult,
+	JudgeEvaluationRequest,
+	JudgeEvaluationResult,
+	LLMProvider,
+} from "./types";
+
+// How a failed model call is handled: retried with backoff, reported as
+// blocked content, or given up on straight away
+export type LLMErrorKind = "retryable" | "contentFilter" | "fatal";
+
+export class LLMCallError extends Error {
+	constructor(
+		readonly kind: LLMErrorKind,
+		message: string,
+		readonly status?: number,
+		// From a Retry-After header, when the service sent one
+		readonly retryAfterMs?: number
+	) {
+		super(message);
+		this.name = "LLMCallError";
+	}
+}
+
+export interface ExecutionOptions {
+	maxConcurrency: number;
+	maxRetries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	timeoutMs: number;
+	// Failed attempts in a row that open the circuit, and how long it stays open
+	breakerThreshold: number;
+	breakerCooldownMs: number;
+}
+
+const CONTENT_FILTER_PATTERN = /content[_ ]filter|content management policy/i;
+
+const RETRYABLE_CODES = [
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ETIMEDOUT",
+	"EAI_AGAIN",
+	"ENOTFOUND",
+	"EPIPE",
+];
+
+function readRetryAfter(headers: unknown): number | undefined {
+	if (!headers || typeof headers !== "object") {
+		return undefined;
+	}
+	const get = (name: string): string | undefined =>
+		typeof (headers as { get?: unknown }).get === "function"
+			? (headers as { get(name: string): string }).get(name)
+			: (headers as Record<string, string>)[name];
+
+	const ms = Number(get("retry-after-ms"));
+	if (ms > 0) {
+		return ms;
+	}
+	const value = get("retry-after");
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return seconds * 1000;
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Sorts any error thrown by a provider or SDK into one of the three kinds.
+// Rate limits, timeouts, server errors and dropped connections are retried;
+// other client errors such as bad keys or unknown deployments are not.
+export function classifyError(error: unknown): LLMCallError {
+	if (error instanceof LLMCallError) {
+		return error;
+	}
+
+	const err = (error ?? {}) as {
+		message?: string;
+		status?: number;
+		code?: string;
+		headers?: unknown;
+		name?: string;
+	};
+	const message = err.message || "Unknown error";
+	const status = typeof err.status === "number" ? err.status : undefined;
+	const retryAfterMs = readRetryAfter(err.headers);
+
+	if (
+		CONTENT_FILTER_PATTERN.test(message) ||
+		CONTENT_FILTER_PATTERN.test(err.code ?? "")
+	) {
+		return new LLMCallError("contentFilter", message, status);
+	}
+	if (
+		status === 408 ||
+		status === 409 ||
+		status === 429 ||
+		(status !== undefined && status >= 500) ||
+		RETRYABLE_CODES.includes(err.code ?? "") ||
+		/rate limit|timed? ?out|connection/i.test(message) ||
+		err.name === "APIConnectionError" ||
+		err.name === "APIConnectionTimeoutError"
+	) {
+		return new LLMCallError("retryable", message, status, retryAfterMs);
+	}
+	return new LLMCallError("fatal", message, status);
+}
+
+// Short reasons stored on answers and judgements, the same for both stages
+export function describeErrorKind(kind: LLMErrorKind): string {
+	switch (kind) {
+		case "contentFilter":
+			return "Content filter triggered";
+		case "retryable":
+			return "Model service unavailable";
+		default:
+			return "Model call failed";
+	}
+}
+
+function sleep(ms: number) {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Counts how many calls run at once and queues the rest in order
+class Semaphore {
+	private active = 0;
+	private waiting: (() => void)[] = [];
+
+	constructor(private limit: number) {}
+
+	async acquire() {
+		if (this.active < this.limit) {
+			this.active++;
+			return;
+		}
+		await new Promise<void>((resolve) => this.waiting.push(resolve));
+	}
+
+	release() {
+		const next = this.waiting.shift();
+		if (next) {
+			// The slot passes straight to the next caller
+			next();
+		} else {
+			this.active--;
+		}
+	}
+}
+
+// Opens after breakerThreshold attempts in a row fail with a retryable error,
+// and then fails calls at once until the cooldown has passed. One trial call
+// is let through after that; it closes the circuit again if it gets a reply.
+class CircuitBreaker {
+	private failures = 0;
+	private openUntil = 0;
+	private trialRunning = false;
+
+	constructor(private threshold: number, private cooldownMs: number) {}
+
+	check() {
+		if (this.failures < this.threshold) {
+			return;
+		}
+		if (Date.now() < this.openUntil || this.trialRunning) {
+			throw new LLMCallError(
+				"retryable",
+				"The model service failed repeatedly; calls are paused for a moment"
+			);
+		}
+		this.trialRunning = true;
+	}
+
+	succeeded() {
+		this.failures = 0;
+		this.trialRunning = false;
+	}
+
+	failed() {
+		this.failures++;
+		this.trialRunning = false;
+		if (this.failures >= this.threshold) {
+			this.openUntil = Date.now() + this.cooldownMs;
+		}
+	}
+}
+
+// The provider's own request keeps running after a timeout; only its result
+// is ignored. run keeps its slot taken until it settles.
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+	return new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(
+			() =>
+				reject(
+					new LLMCallError(
+						"retryable",
+						`Model call timed out after ${timeoutMs} ms`
+					)
+				),
+			timeoutMs
+		);
+		promise.then(
+			(value) => {
+				clearTimeout(timer);
+				resolve(value);
+			},
+			(error) => {
+				clearTimeout(timer);
+				reject(error);
+			}
+		);
+	});
+}
+
+// Runs every model call of one role: at most maxConcurrency at a time, each
+// with a timeout, retried with exponential backoff and full jitter (or as
+// long as Retry-After says), and behind a circuit breaker
+export class ModelCallExecutor {
+	private semaphore: Semaphore;
+	private breaker: CircuitBreaker;
+
+	constructor(private options: ExecutionOptions) {
+		this.semaphore = new Semaphore(options.maxConcurrency);
+		this.breaker = new CircuitBreaker(
+			options.breakerThreshold,
+			options.breakerCooldownMs
+		);
+	}
+
+	async run<T>(call: () => Promise<T>): Promise<T> {
+		const { maxRetries, baseDelayMs, maxDelayMs, timeoutMs } = this.options;
+
+		for (let attempt = 0; ; attempt++) {
+			this.breaker.check();
+
+			await this.semaphore.acquire();
+			// Released once the call settles rather than when it times out,
+			// so calls left running still count towards maxConcurrency
+			const pending = Promise.resolve().then(call);
+			const release = () => this.semaphore.release();
+			pending.then(release, release);
+
+			let error: LLMCallError;
+			try {
+				const result = await withTimeout(pending, timeoutMs);
+				this.breaker.succeeded();
+				return result;
+			} catch (thrown) {
+				error = classifyError(thrown);
+			}
+
+			// Only outages count towards the breaker; a rejected request still
+			// means the service is up
+			if (error.kind !== "retryable") {
+				this.breaker.succeeded();
+				throw error;
+			}
+			this.breaker.failed();
+
+			// A Retry-After longer than maxDelayMs is not waited out inside a
+			// request; the caller gets the error instead
+			const delay =
+				error.retryAfterMs ??
+				Math.random() *
+					Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+			if (attempt >= maxRetries || delay > maxDelayMs) {
+				throw error;
+			}
+			await sleep(delay);
+		}
+	}
+}
+
+// Sends every call of the wrapped provider through the executor
+export class ExecutingProvider implements LLMProvider {
+	readonly name: string;
+	readonly assistantExists?: (assistantId: string) => Promise<boolean>;
+
+	constructor(
+		private provider: LLMProvider,
+		private executor: ModelCallExecutor
+	) {
+		this.name = provider.name;
+		if (provider.assistantExists) {
+			this.assistantExists = (assistantId) =>
+				executor.run(() => provider.assistantExists(assistantId));
+		}
+	}
+
+	complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+		return this.executor.run(() => this.provider.complete(request));
+	}
+
+	evaluate(request: JudgeEvaluationRequest): Promise<JudgeEvaluationResult> {
+		return this.executor.run(() => this.provider.evaluate(request));
+	}
+}
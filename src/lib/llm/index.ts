@@ -0,0 +1,103 @@
+import { createAzureOpenAIProvider } from "./azureOpenAI";
+import {
+	ExecutingProvider,
+	ExecutionOptions,
+	ModelCallExecutor,
+} from "./execution";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openAICompatible";
+import { LLMConfig, LLMProvider, LLMRole } from "./types";
+
+export * from "./types";
+export { AzureOpenAIProvider } from "./azureOpenAI";
+export {
+	classifyError,
+	describeErrorKind,
+	ExecutionOptions,
+	LLMCallError,
+	LLMErrorKind,
+} from "./execution";
+export { MockProvider, MockRule, MockScript } from "./mock";
+export { OpenAICompatibleProvider } from "./openAICompatible";
+
+const DEFAULT_MODELS: Record<LLMRole, string> = {
+	answer: "gpt-35-turbo-16k",
+	judge: "gpt-4o",
+};
+
+const providers: Partial<Record<LLMRole, LLMProvider>> = {};
+
+// Each role reads its own settings first and falls back to the shared ones:
+//   ANSWER_LLM_PROVIDER / JUDGE_LLM_PROVIDER, else LLM_PROVIDER (azure, openai or mock)
+//   ANSWER_MODEL / JUDGE_MODEL - model name, or deployment name on Azure
+//   OPENAI_KEY, OPENAI_ENDPOINT, OPENAI_API_VERSION
+//   MOCK_LLM_SCRIPT - optional JSON script for the mock provider
+export function getLLMConfig(role: LLMRole): LLMConfig {
+	const prefix = role.toUpperCase();
+
+	return {
+		provider: (process.env[`${prefix}_LLM_PROVIDER`] ||
+			process.env.LLM_PROVIDER ||
+			"azure") as LLMConfig["provider"],
+		model: process.env[`${prefix}_MODEL`] || DEFAULT_MODELS[role],
+		apiKey: process.env.OPENAI_KEY,
+		endpoint: process.env.OPENAI_ENDPOINT,
+		apiVersion: process.env.OPENAI_API_VERSION || "2024-05-01-preview",
+	};
+}
+
+// Limits for every model call of a role, with the same role prefixes:
+//   LLM_MAX_CONCURRENCY (default 4) - calls running at once in this process
+//   LLM_MAX_RETRIES (3), LLM_BASE_DELAY_MS (500), LLM_MAX_DELAY_MS (20000)
+//   LLM_TIMEOUT_MS (60000) - per attempt
+//   LLM_BREAKER_THRESHOLD (5), LLM_BREAKER_COOLDOWN_MS (30000)
+export function getExecutionOptions(role: LLMRole): ExecutionOptions {
+	const prefix = role.toUpperCase();
+	const read = (name: string, fallback: number, min = 1) => {
+		const raw = process.env[`${prefix}_${name}`] || process.env[name];
+		const value = Number(raw);
+		return raw && Number.isFinite(value) && value >= min ? value : fallback;
+	};
+
+	return {
+		maxConcurrency: read("LLM_MAX_CONCURRENCY", 4),
+		maxRetries: read("LLM_MAX_RETRIES", 3, 0),
+		baseDelayMs: read("LLM_BASE_DELAY_MS", 500),
+		maxDelayMs: read("LLM_MAX_DELAY_MS", 20000),
+		timeoutMs: read("LLM_TIMEOUT_MS", 60000),
+		breakerThreshold: read("LLM_BREAKER_THRESHOLD", 5),
+		breakerCooldownMs: read("LLM_BREAKER_COOLDOWN_MS", 30000),
+	};
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+	switch (config.provider) {
+		case "azure":
+			return createAzureOpenAIProvider(config);
+		case "openai":
+			return createOpenAICompatibleProvider(config);
+		case "mock":
+			return createMockProvider(process.env.MOCK_LLM_SCRIPT);
+		default:
+			throw new Error(`Unknown LLM provider "${config.provider}"`);
+	}
+}
+
+// Every call goes through the role's executor, see lib/llm/execution
+export function getLLMProvider(role: LLMRole): LLMProvider {
+	if (!providers[role]) {
+		providers[role] = new ExecutingProvider(
+			createLLMProvider(getLLMConfig(role)),
+			new ModelCallExecutor(getExecutionOptions(role))
+		);
+	}
+	return providers[role];
+}
+
+// Lets tests swap in a scripted provider
+export function setLLMProvider(
+	role: LLMRole,
+	provider: LLMProvider | undefined
+) {
+	providers[role] = provider;
+}
@@ -0,0 +1,118 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import { formatJudgeInput, MAX_CRITERION_SCORE } from "./judgePrompt";
+import {
+	ChatCompletionRequest,
+	ChatCompletionResult,
+	ChatMessage,
+	JudgeEvaluationRequest,
+	JudgeEvaluationResult,
+	LLMProvider,
+	TokenUsage,
+} from "./types";
+
+export interface MockRule {
+	// Substring looked for in the last user message; a rule without one always matches
+	match?: string;
+	reply: string;
+}
+
+export interface MockScript {
+	answers?: MockRule[];
+	judgements?: MockRule[];
+}
+
+function hashNumber(text: string): number {
+	return createHash("sha256").update(text).digest().readUInt32BE(0);
+}
+
+// Rough stand-in so usage accounting has something to count offline
+function estimateUsage(messages: ChatMessage[], reply: string): TokenUsage {
+	const countTokens = (text: string) => Math.ceil(text.length / 4);
+	const promptTokens = messages.reduce(
+		(sum, message) => sum + countTokens(message.content),
+		0
+	);
+	const completionTokens = countTokens(reply);
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
+	};
+}
+
+function findReply(rules: MockRule[] | undefined, input: string) {
+	return rules?.find((rule) => !rule.match || input.includes(rule.match))
+		?.reply;
+}
+
+// Offline provider for rehearsals and tests. Replies come from the script
+// when a rule matches and are otherwise derived from a hash of the input,
+// so the same game always produces the same answers and scores.
+export class MockProvider implements LLMProvider {
+	readonly name = "mock";
+
+	constructor(private script: MockScript = {}, private model = "mock") {}
+
+	async complete(
+		request: ChatCompletionRequest
+	): Promise<ChatCompletionResult> {
+		const input = [...request.messages]
+			.reverse()
+			.find((message) => message.role === "user")?.content;
+
+		const reply =
+			findReply(this.script.answers, input ?? "") ??
+			`Mock answer #${hashNumber(input ?? "") % 1000}.`;
+
+		return {
+			content: reply,
+			model: this.model,
+			usage: estimateUsage(request.messages, reply),
+		};
+	}
+
+	async evaluate(
+		request: JudgeEvaluationRequest
+	): Promise<JudgeEvaluationResult> {
+		const input = formatJudgeInput(request);
+
+		// Later samples of a panel judge get their own scores; the first
+		// scores the same as a judge asked once
+		const sample = request.sample > 1 ? `\nsample ${request.sample}` : "";
+		const reply =
+			findReply(this.script.judgements, input) ??
+			this.scoreDeterministically(
+				`${request.judge.id}\n${request.question}\n${request.answer}${sample}`
+			);
+
+		return {
+			content: reply,
+			model: this.model,
+			usage: estimateUsage([{ role: "user", content: input }], reply),
+		};
+	}
+
+	private scoreDeterministically(input: string): string {
+		const hash = hashNumber(input);
+		const range = MAX_CRITERION_SCORE + 1;
+		const contextScore = hash % range;
+		const technicalScore = Math.floor(hash / range) % range;
+		const clarityScore = Math.floor(hash / (range * range)) % range;
+
+		return JSON.stringify({
+			contextScore,
+			technicalScore,
+			clarityScore,
+			finalScore: contextScore + technicalScore + clarityScore,
+			justification: "Scored by the mock judge.",
+		});
+	}
+}
+
+export function createMockProvider(scriptPath?: string): MockProvider {
+	const script: MockScript = scriptPath
+		? JSON.parse(fs.readFileSync(scriptPath, "utf8"))
+		: {};
+	return new MockProvider(script);
+}
@@ -0,0 +1,95 @@
+import OpenAI from "openai";
+import { LLMCallError } from "./execution";
+import { buildJudgeMessages } from "./judgePrompt";
+import {
+	ChatCompletionRequest,
+	ChatCompletionResult,
+	JudgeEvaluationRequest,
+	JudgeEvaluationResult,
+	LLMConfig,
+	LLMProvider,
+	TokenUsage,
+} from "./types";
+
+export function toTokenUsage(
+	usage: OpenAI.CompletionUsage | undefined | null
+): TokenUsage | undefined {
+	if (!usage) {
+		return undefined;
+	}
+	return {
+		promptTokens: usage.prompt_tokens,
+		completionTokens: usage.completion_tokens,
+		totalTokens: usage.total_tokens,
+	};
+}
+
+// Talks to anything that speaks the OpenAI chat completions API: OpenAI
+// itself, or a local llama.cpp / Ollama server. Judges are run as a chat
+// with the judge's rubric as the system message.
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly name: string = "openai";
+
+	constructor(protected client: OpenAI, protected model: string) {}
+
+	async complete(
+		request: ChatCompletionRequest
+	): Promise<ChatCompletionResult> {
+		const response = await this.client.chat.completions.create({
+			model: this.model,
+			messages: request.messages,
+			temperature: request.temperature,
+			max_tokens: request.maxTokens,
+		});
+
+		if (!response || !response.choices || response.choices.length === 0) {
+			return { content: null, model: this.model };
+		}
+
+		// Filtered completions come back as a normal reply with no text
+		if (response.choices[0]?.finish_reason === "content_filter") {
+			throw new LLMCallError(
+				"contentFilter",
+				"The reply was blocked by the content filter"
+			);
+		}
+
+		return {
+			content: response.choices[0]?.message?.content || "",
+			model: response.model || this.model,
+			usage: toTokenUsage(response.usage),
+		};
+	}
+
+	async evaluate(
+		request: JudgeEvaluationRequest
+	): Promise<JudgeEvaluationResult> {
+		const result = await this.complete({
+			messages: buildJudgeMessages(request),
+			temperature: request.temperature ?? 0,
+		});
+
+		if (!result.content) {
+			throw new Error("No text content found in judge response");
+		}
+
+		return {
+			content: result.content,
+			model: result.model,
+			usage: result.usage,
+		};
+	}
+}
+
+export function createOpenAICompatibleProvider(
+	config: LLMConfig
+): OpenAICompatibleProvider {
+	const client = new OpenAI({
+		// Local servers usually ignore the key, but the client requires one
+		apiKey: config.apiKey || "not-needed",
+		baseURL: config.endpoint,
+		// Retries are left to the executor, see lib/llm/execution
+		maxRetries: 0,
+	});
+	return new OpenAICompatibleProvider(client, config.model);
+}
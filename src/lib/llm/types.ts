@@ -0,0 +1,67 @@
+import { Judge } from "../storage";
+
+export type LLMRole = "answer" | "judge";
+
+export interface ChatMessage {
+	role: "system" | "user" | "assistant";
+	content: string;
+}
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+}
+
+export interface ChatCompletionRequest {
+	messages: ChatMessage[];
+	temperature?: number;
+	maxTokens?: number;
+}
+
+export interface ChatCompletionResult {
+	// null when the model returned no choices at all
+	content: string | null;
+	model: string;
+	usage?: TokenUsage;
+}
+
+export interface JudgeEvaluationRequest {
+	judge: Judge;
+	question: string;
+	answer: string;
+	// Why the previous reply was rejected, when re-asking the judge
+	feedback?: string;
+	// Defaults to 0; judge panels raise it to sample one judge several times
+	temperature?: number;
+	// Which of those samples this is, from 1, so offline providers can vary
+	// their replies the way a sampled model would
+	sample?: number;
+}
+
+export interface JudgeEvaluationResult {
+	// The judge's raw reply, parsed by the caller
+	content: string;
+	model: string;
+	usage?: TokenUsage;
+	// Something that went wrong without affecting the reply, for the caller
+	// to log
+	warning?: string;
+}
+
+export interface LLMProvider {
+	readonly name: string;
+	complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+	evaluate(request: JudgeEvaluationRequest): Promise<JudgeEvaluationResult>;
+	// Only implemented by providers that run judges as hosted assistants
+	assistantExists?(assistantId: string): Promise<boolean>;
+}
+
+export interface LLMConfig {
+	provider: "azure" | "openai" | "mock";
+	// The model name, or the deployment name on Azure
+	model: string;
+	apiKey?: string;
+	endpoint?: string;
+	apiVersion?: string;
+}
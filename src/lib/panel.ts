@@ -0,0 +1,113 @@
+import { Game, Judge, JudgePanel, ScoreAggregation } from "./storage";
+
+export const SCORE_AGGREGATIONS: ScoreAggregation[] = [
+	"mean",
+	"median",
+	"trimmedMean",
+];
+
+// Standard deviation of the panel's total scores, out of a possible 300
+export const DEFAULT_DISAGREEMENT_THRESHOLD = 45;
+
+// Each answer costs this many judge calls at most
+export const MAX_PANEL_EVALUATIONS = 9;
+
+// Repeated samples of one judge need some randomness to differ at all
+export const PANEL_SAMPLE_TEMPERATURE = 0.7;
+
+// Games without a panel are scored once by their own judge
+export function getJudgePanel(game: Pick<Game, "judge" | "panel">): JudgePanel {
+	return (
+		game.panel ?? {
+			judges: [game.judge],
+			samples: 1,
+			aggregation: "mean",
+			disagreementThreshold: DEFAULT_DISAGREEMENT_THRESHOLD,
+		}
+	);
+}
+
+export function panelSize(panel: JudgePanel): number {
+	return panel.judges.length * panel.samples;
+}
+
+export function aggregateScores(
+	values: number[],
+	method: ScoreAggregation
+): number {
+	const sorted = [...values].sort((a, b) => a - b);
+
+	if (method === "median") {
+		const middle = Math.floor(sorted.length / 2);
+		return sorted.length % 2
+			? sorted[middle]
+			: (sorted[middle - 1] + sorted[middle]) / 2;
+	}
+
+	// Drops the top and bottom 20%, and at least one each way from three up
+	const trim =
+		method === "trimmedMean" && sorted.length >= 3
+			? Math.max(1, Math.floor(sorted.length * 0.2))
+			: 0;
+	const kept = sorted.slice(trim, sorted.length - trim);
+	return kept.reduce((sum, value) => sum + value, 0) / kept.length;
+}
+
+export function standardDeviation(values: number[]): number {
+	const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+	const variance =
+		values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+		values.length;
+	return Math.sqrt(variance);
+}
+
+export interface PanelOptions {
+	// Judges to add to the game's own judge
+	judgeIds: string[];
+	samples: number;
+	aggregation: string;
+	disagreementThreshold: number;
+}
+
+// Builds the panel a host asked for, or returns why it cannot be built. No
+// panel is needed when the game's judge is only asked once.
+export function buildJudgePanel(
+	judge: Judge,
+	available: Judge[],
+	options: PanelOptions
+): { panel?: JudgePanel; error?: string } {
+	if (!SCORE_AGGREGATIONS.includes(options.aggregation as ScoreAggregation)) {
+		return {
+			error: `aggregation must be one of ${SCORE_AGGREGATIONS.join(
+				", "
+			)}`,
+		};
+	}
+
+	const members = [{ ...judge, questions: [] }];
+	for (const id of options.judgeIds) {
+		const member = available.find((j) => j.id === id);
+		if (!member) {
+			return { error: `Judge ${id} not found or disabled` };
+		}
+		// Panel members only score, so their question banks are not copied
+		if (!members.some((m) => m.id === id)) {
+			members.push({ ...member, questions: [] });
+		}
+	}
+
+	const panel: JudgePanel = {
+		judges: members,
+		samples: options.samples,
+		aggregation: options.aggregation as ScoreAggregation,
+		disagreementThreshold: options.disagreementThreshold,
+	};
+
+	if (panelSize(panel) > MAX_PANEL_EVALUATIONS) {
+		return {
+			error: `A panel can make at most ${MAX_PANEL_EVALUATIONS} judge calls per answer`,
+		};
+	}
+
+	return { panel: panelSize(panel) > 1 ? panel : undefined };
+}
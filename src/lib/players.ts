@@ -0,0 +1,8 @@
+import { Player } from "./storage";
+
+// The player as other clients may see it, without recovery secrets or the
+// prompt history
+export function toPublicPlayer(player: Player): Player {
+	const { recoveryCodeHash, promptVersions, _etag, ...publicPlayer } = player;
+	return publicPlayer;
+}
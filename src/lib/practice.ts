@@ -0,0 +1,31 @@
+import { Game, JudgeQuestion, PracticeRules } from "./storage";
+
+export const MAX_PRACTICE_QUESTIONS = 3;
+
+const DEFAULT_PRACTICE_RULES: PracticeRules = {
+	playerLimit: 5,
+	windowSeconds: 600,
+	gameQuota: 200,
+	allowScoring: true,
+};
+
+export function getPracticeRules(game: Pick<Game, "practice">): PracticeRules {
+	return { ...DEFAULT_PRACTICE_RULES, ...game.practice };
+}
+
+// The sample questions to practice on: the one asked for, or the first few
+export function selectPracticeQuestions(
+	game: Pick<Game, "judge">,
+	questionId?: string
+): JudgeQuestion[] {
+	const samples = game.judge?.sampleQuestions ?? [];
+	if (questionId) {
+		return samples.filter((question) => question.id === questionId);
+	}
+	return samples.slice(0, MAX_PRACTICE_QUESTIONS);
+}
+
+// Each question costs one answer call, plus one judge call when scored
+export function practiceCost(questions: number, scored: boolean): number {
+	return questions * (scored ? 2 : 1);
+}
@@ -0,0 +1,249 @@
+import { Game, PromptRules } from "./storage";
+
+export interface PromptViolation {
+	rule: keyof PromptRules;
+	message: string;
+}
+
+// Applies to every game; a judge's rules and then the game's own override it
+export const DEFAULT_PROMPT_RULES: PromptRules = {
+	minLength: 1,
+	maxLength: 4000,
+	allowSpecialCharacters: true,
+};
+
+// Roughly four characters per token for English text with OpenAI tokenizers
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+export function getPromptRules(
+	game: Pick<Game, "judge" | "promptRules">
+): PromptRules {
+	return {
+		...DEFAULT_PROMPT_RULES,
+		...game.judge?.promptRules,
+		...game.promptRules,
+	};
+}
+
+// Letters, digits, whitespace and common punctuation in any script. Anything
+// else, such as markdown, code or emoji, counts as a special character.
+const SPECIAL_CHARACTER = /[^\p{L}\p{M}\p{N}\s.,;:!?'"()\-–—…]/gu;
+
+// The script each supported language is written in. Latin languages are told
+// apart by their common words, see detectLatinLanguage.
+const LANGUAGE_SCRIPTS: Record<string, RegExp> = {
+	en: /\p{Script=Latin}/u,
+	fr: /\p{Script=Latin}/u,
+	de: /\p{Script=Latin}/u,
+	es: /\p{Script=Latin}/u,
+	it: /\p{Script=Latin}/u,
+	pt: /\p{Script=Latin}/u,
+	nl: /\p{Script=Latin}/u,
+	ru: /\p{Script=Cyrillic}/u,
+	uk: /\p{Script=Cyrillic}/u,
+	el: /\p{Script=Greek}/u,
+	ar: /\p{Script=Arabic}/u,
+	he: /\p{Script=Hebrew}/u,
+	hi: /\p{Script=Devanagari}/u,
+	th: /\p{Script=Thai}/u,
+	ko: /\p{Script=Hangul}/u,
+	ja: /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u,
+	zh: /\p{Script=Han}/u,
+};
+
+export const PROMPT_LANGUAGES = Object.keys(LANGUAGE_SCRIPTS);
+
+const LATIN_STOPWORDS: Record<string, string[]> = {
+	en: ["the", "and", "you", "is", "are", "to", "of", "with", "your", "a"],
+	fr: ["le", "la", "les", "et", "vous", "est", "des", "une", "de", "du"],
+	de: ["der", "die", "das", "und", "du", "ist", "nicht", "ein", "mit", "sie"],
+	es: ["el", "la", "los", "y", "eres", "es", "que", "una", "de", "con"],
+	it: ["il", "la", "e", "sei", "che", "di", "una", "con", "per", "non"],
+	pt: ["o", "a", "os", "e", "você", "é", "que", "uma", "de", "com"],
+	nl: ["de", "het", "en", "je", "is", "een", "van", "met", "niet", "jij"],
+};
+
+// Below this many letters there is too little text to tell scripts apart.
+// Letters rather than words, since Chinese, Japanese and Thai don't put
+// spaces between words.
+const MIN_LETTERS_FOR_LANGUAGE = 16;
+
+// Below this many words there is too little text to tell Latin languages apart
+const MIN_WORDS_FOR_LANGUAGE = 8;
+
+// Share of letters that must be in the language's script
+const MIN_SCRIPT_SHARE = 0.8;
+
+// Picks the Latin language whose common words appear most often, or
+// undefined when none clearly wins
+function detectLatinLanguage(words: string[]): string | undefined {
+	const counts = Object.entries(LATIN_STOPWORDS)
+		.map(([language, stopwords]) => ({
+			language,
+			count: words.filter((word) => stopwords.includes(word)).length,
+		}))
+		.sort((a, b) => b.count - a.count);
+	return counts[0].count > counts[1].count ? counts[0].language : undefined;
+}
+
+function isWrittenIn(prompt: string, language: string): boolean {
+	const letters = prompt.match(/\p{L}/gu) ?? [];
+	if (letters.length < MIN_LETTERS_FOR_LANGUAGE) {
+		return true;
+	}
+
+	const script = LANGUAGE_SCRIPTS[language];
+	const inScript = letters.filter((letter) => script.test(letter)).length;
+	if (inScript / letters.length < MIN_SCRIPT_SHARE) {
+		return false;
+	}
+
+	const words = prompt.toLowerCase().match(/\p{L}+/gu) ?? [];
+	if (!LATIN_STOPWORDS[language] || words.length < MIN_WORDS_FOR_LANGUAGE) {
+		return true;
+	}
+	const detected = detectLatinLanguage(words);
+	return !detected || detected === language;
+}
+
+// Checks a prompt against the rules and returns one entry per broken rule,
+// so the UI can show them all at once
+export function findPromptViolations(
+	prompt: string,
+	rules: PromptRules
+): PromptViolation[] {
+	const violations: PromptViolation[] = [];
+	const text = prompt.trim();
+
+	if (rules.minLength !== undefined && text.length < rules.minLength) {
+		violations.push({
+			rule: "minLength",
+			message: `The prompt must be at least ${rules.minLength} characters long`,
+		});
+	}
+	if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+		violations.push({
+			rule: "maxLength",
+			message: `The prompt must be at most ${rules.maxLength} characters long, it has ${text.length}`,
+		});
+	}
+
+	const tokens = estimateTokens(text);
+	if (rules.maxTokens !== undefined && tokens > rules.maxTokens) {
+		violations.push({
+			rule: "maxTokens",
+			message: `The prompt is about ${tokens} tokens, the limit is ${rules.maxTokens}`,
+		});
+	}
+
+	const lowerText = text.toLowerCase();
+	const banned = (rules.bannedPhrases ?? []).filter((phrase) =>
+		lowerText.includes(phrase.toLowerCase())
+	);
+	if (banned.length > 0) {
+		violations.push({
+			rule: "bannedPhrases",
+			message: `The prompt contains banned phrases: ${banned.join(", ")}`,
+		});
+	}
+
+	if (rules.language && !isWrittenIn(text, rules.language)) {
+		violations.push({
+			rule: "language",
+			message: `The prompt must be written in ${rules.language}`,
+		});
+	}
+
+	if (rules.allowSpecialCharacters === false) {
+		const special = [...new Set(text.match(SPECIAL_CHARACTER) ?? [])];
+		if (special.length > 0) {
+			violations.push({
+				rule: "allowSpecialCharacters",
+				message: `Special characters are not allowed: ${special
+					.slice(0, 10)
+					.join(" ")}`,
+			});
+		}
+	}
+
+	return violations;
+}
+
+function isCount(value: unknown): boolean {
+	return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Checks rules sent by a host or admin. Returns one message per problem.
+export function validatePromptRules(rules: PromptRules): string[] {
+	const violations: string[] = [];
+
+	for (const key of ["minLength", "maxLength", "maxTokens"] as const) {
+		if (rules[key] !== undefined && !isCount(rules[key])) {
+			violations.push(`${key} must be a whole number of at least 0`);
+		}
+	}
+	if (
+		isCount(rules.minLength) &&
+		isCount(rules.maxLength) &&
+		rules.minLength > rules.maxLength
+	) {
+		violations.push("minLength must not be more than maxLength");
+	}
+	if (
+		rules.bannedPhrases !== undefined &&
+		(!Array.isArray(rules.bannedPhrases) ||
+			rules.bannedPhrases.some(
+				(phrase) => typeof phrase !== "string" || !phrase.trim()
+			))
+	) {
+		violations.push("bannedPhrases must be a list of non-empty strings");
+	}
+	if (
+		rules.language !== undefined &&
+		!PROMPT_LANGUAGES.includes(rules.language)
+	) {
+		violations.push(
+			`language must be one of ${PROMPT_LANGUAGES.join(", ")}`
+		);
+	}
+	if (
+		rules.allowSpecialCharacters !== undefined &&
+		typeof rules.allowSpecialCharacters !== "boolean"
+	) {
+		violations.push("allowSpecialCharacters must be true or false");
+	}
+
+	return violations;
+}
+
+// Reads rules from createNewGame's query string; only the parameters given
+// are set, so the judge's rules still apply to the rest
+export function parsePromptRules(query: URLSearchParams): PromptRules {
+	const number = (name: string) =>
+		query.has(name) ? Number(query.get(name)) : undefined;
+	const rules: Record<string, unknown> = {
+		minLength: number("minPromptLength"),
+		maxLength: number("maxPromptLength"),
+		maxTokens: number("maxPromptTokens"),
+		bannedPhrases: query.has("bannedPhrases")
+			? query
+					.get("bannedPhrases")
+					.split(",")
+					.map((phrase) => phrase.trim())
+					.filter(Boolean)
+			: undefined,
+		language: query.get("promptLanguage") ?? undefined,
+		allowSpecialCharacters: query.has("allowSpecialCharacters")
+			? query.get("allowSpecialCharacters") === "true"
+			: undefined,
+	};
+
+	for (const key of Object.keys(rules)) {
+		if (rules[key] === undefined) {
+			delete rules[key];
+		}
+	}
+	return rules as PromptRules;
+}
@@ -0,0 +1,133 @@
+import { HttpResponseInit, InvocationContext } from "@azure/functions";
+import { startAnswerGeneration } from "./generation";
+import { getCurrentRound } from "./rounds";
+import {
+	Game,
+	getStorage,
+	PreconditionFailedError,
+	PromptWindow,
+} from "./storage";
+import { sendToGame } from "./webPubSub";
+
+// The prompt window of the round being played, if the host set one
+export function getPromptWindow(
+	game: Pick<Game, "promptWindow" | "currentRound">
+): PromptWindow | undefined {
+	const window = game.promptWindow;
+	return window && window.round === getCurrentRound(game)
+		? window
+		: undefined;
+}
+
+// Returns a 409 response once the current round's deadline has passed
+export function requireOpenPromptWindow(
+	game: Pick<Game, "promptWindow" | "currentRound">,
+	now = new Date()
+): HttpResponseInit | undefined {
+	const window = getPromptWindow(game);
+	if (!window || new Date(window.deadline) > now) {
+		return undefined;
+	}
+
+	return {
+		status: 409,
+		jsonBody: {
+			error: `Prompts for this round closed at ${window.deadline}`,
+			deadline: window.deadline,
+		},
+	};
+}
+
+// Clients run the countdown from deadline; serverTime lets them correct for
+// clock skew
+export async function broadcastPromptWindow(
+	game: Pick<Game, "id">,
+	window: PromptWindow,
+	context: InvocationContext
+) {
+	await sendToGame(
+		game.id,
+		{
+			message: window.lockedAt
+				? "Prompts are locked"
+				: "Prompt deadline set",
+			type: window.lockedAt ? "promptsLocked" : "promptDeadline",
+			gameId: game.id,
+			round: window.round,
+			deadline: window.deadline,
+			serverTime: new Date().toISOString(),
+		},
+		context
+	);
+}
+
+// Run by the timer: announces every window that has closed since the last
+// run and starts answer generation where the host asked for it. A game that
+// fails is logged and left for the next run; the others still go ahead.
+export async function lockExpiredPrompts(context: InvocationContext) {
+	const now = new Date().toISOString();
+
+	for (const game of await getStorage().games.listExpiredPromptWindows(now)) {
+		try {
+			await lockPromptWindow(game, now, context);
+		} catch (error) {
+			context.error(`Could not lock prompts for game ${game.id}:`, error);
+		}
+	}
+}
+
+// Locks first, so players are stopped whatever happens to generation. A
+// generation that cannot start is recorded on the window for the host, who
+// can start it with generateAnswers.
+async function lockPromptWindow(
+	game: Game,
+	now: string,
+	context: InvocationContext
+) {
+	const { games } = getStorage();
+	const window: PromptWindow = { ...game.promptWindow, lockedAt: now };
+
+	try {
+		await games.update(
+			game.id,
+			{ promptWindow: window },
+			{ ifStatus: game.status }
+		);
+	} catch (error) {
+		if (error instanceof PreconditionFailedError) {
+			// The host moved the game on in the meantime
+			return;
+		}
+		throw error;
+	}
+
+	context.log(`Locked prompts for game ${game.id} round ${window.round}`);
+	await broadcastPromptWindow(game, window, context);
+
+	if (!window.autoGenerateAnswers) {
+		return;
+	}
+
+	let generationError: string | undefined;
+	try {
+		const result = await startAnswerGeneration(
+			{ ...game, promptWindow: window },
+			context
+		);
+		if (result.status < 200 || result.status >= 300) {
+			generationError =
+				result.jsonBody?.error ?? `Failed with status ${result.status}`;
+		}
+	} catch (error) {
+		generationError = error.message;
+	}
+	if (generationError) {
+		context.warn(
+			`Could not start answers for game ${game.id}:`,
+			generationError
+		);
+		await games.update(game.id, {
+			promptWindow: { ...window, generationError },
+		});
+	}
+}
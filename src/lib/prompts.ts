@@ -0,0 +1,138 @@
+import { detectInjection } from "./injection";
+import {
+	getStorage,
+	Player,
+	PreconditionFailedError,
+	PromptVersion,
+} from "./storage";
+import { getPromptOwner } from "./teams";
+
+const MAX_EDIT_ATTEMPTS = 3;
+
+// Players submitting before versions existed have their one prompt as version 1
+export function getPromptVersions(player: Player): PromptVersion[] {
+	if (player.promptVersions) {
+		return player.promptVersions;
+	}
+	if (!player.prompt) {
+		return [];
+	}
+	return [
+		{
+			version: 1,
+			prompt: player.prompt,
+			characters: player.prompt.length,
+			round: 1,
+			submittedAt: undefined,
+		},
+	];
+}
+
+// Stores a new version and makes it the final one. On a team the member
+// who submitted it is recorded with the version and as the last editor.
+export function addPromptVersion(
+	player: Player,
+	prompt: string,
+	round: number,
+	editor?: Player
+): Player {
+	const versions = getPromptVersions(player);
+	const injectionSignals = detectInjection(prompt);
+	const version: PromptVersion = {
+		version: versions.length + 1,
+		prompt,
+		characters: prompt.length,
+		round,
+		submittedAt: new Date().toISOString(),
+		...(injectionSignals.length > 0 ? { injectionSignals } : {}),
+		...(editor
+			? { editedBy: editor.id, editedByName: editor.screenName }
+			: {}),
+	};
+
+	return withLastEditor(
+		{
+			...player,
+			prompt,
+			promptVersions: [...versions, version],
+			finalVersion: version.version,
+		},
+		editor
+	);
+}
+
+// Applies an edit to the record holding the player's prompt, see
+// getPromptOwner. Team members can save at the same time, so the record is
+// only written if it has not changed since it was read, and otherwise the
+// edit is made again on a fresh copy. Returns undefined if the edit does;
+// throws PreconditionFailedError if the record kept changing.
+export async function editPrompt(
+	player: Player,
+	edit: (owner: Player) => Player | undefined
+): Promise<Player | undefined> {
+	const { players } = getStorage();
+	for (let attempt = 1; ; attempt++) {
+		const current =
+			attempt === 1
+				? player
+				: (await players.get(player.gameId, player.id)) ?? player;
+		const updated = edit(await getPromptOwner(current));
+		if (!updated) {
+			return undefined;
+		}
+		try {
+			return await players.replace(updated);
+		} catch (error) {
+			if (
+				!(error instanceof PreconditionFailedError) ||
+				attempt >= MAX_EDIT_ATTEMPTS
+			) {
+				throw error;
+			}
+		}
+	}
+}
+
+// Makes an earlier version final again. Returns undefined for an unknown version.
+export function selectPromptVersion(
+	player: Player,
+	versionNumber: number,
+	editor?: Player
+): Player | undefined {
+	const versions = getPromptVersions(player);
+	const version = versions.find((v) => v.version === versionNumber);
+	if (!version) {
+		return undefined;
+	}
+
+	return withLastEditor(
+		{
+			...player,
+			prompt: version.prompt,
+			promptVersions: versions,
+			finalVersion: version.version,
+		},
+		editor
+	);
+}
+
+// Teams show which member changed their prompt last
+function withLastEditor(player: Player, editor: Player | undefined): Player {
+	if (!editor || !player.team) {
+		return player;
+	}
+	return {
+		...player,
+		team: {
+			...player.team,
+			lastEditedBy: editor.id,
+			lastEditedByName: editor.screenName,
+			lastEditedAt: new Date().toISOString(),
+		},
+	};
+}
+
+export function getFinalVersion(player: Player): number | undefined {
+	const versions = getPromptVersions(player);
+	return player.finalVersion ?? versions[versions.length - 1]?.version;
+}
@@ -0,0 +1,70 @@
+import { HttpResponseInit } from "@azure/functions";
+import { getStorage } from "./storage";
+
+export interface LimitResult {
+	allowed: boolean;
+	// Left after this request, never below 0
+	remaining: number;
+	// Start of the next window, for windowed limits
+	resetAt?: string;
+	// What was counted, so releaseLimit can give it back
+	counterId: string;
+	amount: number;
+}
+
+// Counts amount against limit. With windowSeconds the count starts again in
+// every fixed window of that length; without, the limit is for good. Requests
+// over the limit are given back, so only allowed ones count.
+export async function consumeLimit(
+	key: string,
+	limit: number,
+	amount = 1,
+	windowSeconds?: number
+): Promise<LimitResult> {
+	let id = key;
+	let resetAt: string | undefined;
+	if (windowSeconds) {
+		const windowMs = windowSeconds * 1000;
+		const windowIndex = Math.floor(Date.now() / windowMs);
+		id = `${key}:${windowIndex}`;
+		resetAt = new Date((windowIndex + 1) * windowMs).toISOString();
+	}
+
+	const counter = await getStorage().counters.increment(id, amount, resetAt);
+	const result: LimitResult = {
+		allowed: counter.count <= limit,
+		remaining: Math.max(0, limit - counter.count),
+		resetAt,
+		counterId: id,
+		amount,
+	};
+	if (!result.allowed) {
+		await releaseLimit(result);
+		result.remaining = Math.max(0, limit - (counter.count - amount));
+	}
+	return result;
+}
+
+// Gives back what consumeLimit counted, for a request that was turned away
+// by a later check
+export async function releaseLimit(result: LimitResult) {
+	await getStorage().counters.increment(
+		result.counterId,
+		-result.amount,
+		result.resetAt
+	);
+}
+
+export function tooManyRequests(
+	error: string,
+	resetAt?: string
+): HttpResponseInit {
+	const retryAfter = resetAt
+		? Math.max(1, Math.ceil((Date.parse(resetAt) - Date.now()) / 1000))
+		: undefined;
+	return {
+		status: 429,
+		headers: retryAfter ? { "Retry-After": String(retryAfter) } : undefined,
+		jsonBody: { error, resetAt },
+	};
+}
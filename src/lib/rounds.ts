@@ -0,0 +1,67 @@
+import { Game, JudgeQuestion } from "./storage";
+
+export const DEFAULT_ROUNDS = 1;
+export const DEFAULT_QUESTIONS_PER_ROUND = 3;
+export const MAX_ROUNDS = 10;
+
+// Picks a question set for each round. Questions are not repeated until the
+// judge runs out, and never within one round.
+export function selectRoundQuestions(
+	questions: JudgeQuestion[],
+	rounds: number,
+	questionsPerRound: number
+): JudgeQuestion[][] {
+	let pool: JudgeQuestion[] = [];
+	const selected: JudgeQuestion[][] = [];
+
+	for (let round = 0; round < rounds; round++) {
+		const roundQuestions: JudgeQuestion[] = [];
+		for (let i = 0; i < questionsPerRound; i++) {
+			let candidates = pool.filter((q) => !roundQuestions.includes(q));
+			if (candidates.length === 0) {
+				pool = [...questions];
+				candidates = pool.filter((q) => !roundQuestions.includes(q));
+			}
+			if (candidates.length === 0) {
+				break;
+			}
+
+			const question =
+				candidates[Math.floor(Math.random() * candidates.length)];
+			pool.splice(pool.indexOf(question), 1);
+			roundQuestions.push(question);
+		}
+		selected.push(roundQuestions);
+	}
+
+	return selected;
+}
+
+// Games created before rounds existed have a single round
+export function getCurrentRound(game: Pick<Game, "currentRound">): number {
+	return game.currentRound ?? 1;
+}
+
+export function getTotalRounds(game: Pick<Game, "rounds">): number {
+	return game.rounds?.length || 1;
+}
+
+// The judge's questions asked in the given round
+export function getRoundQuestions(
+	game: Pick<Game, "judge" | "rounds">,
+	round: number
+): JudgeQuestion[] {
+	const questions = game.judge?.questions ?? [];
+	const roundInfo = game.rounds?.find((r) => r.number === round);
+	if (!roundInfo) {
+		return questions;
+	}
+	return roundInfo.questionIds
+		.map((id) => questions.find((q) => q.id === id))
+		.filter(Boolean);
+}
+
+// Answers and judgements stored before rounds existed belong to round 1
+export function roundOf(item: { round?: number }): number {
+	return item.round ?? 1;
+}
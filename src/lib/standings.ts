@@ -0,0 +1,87 @@
+import { InvocationContext } from "@azure/functions";
+import { emptyBreakdown, rankRows } from "./leaderboard";
+import { getCurrentRound, getTotalRounds } from "./rounds";
+import { Game, getStorage, Judgement, StandingsEntry } from "./storage";
+import { getTeamSettings, splitStandings, withMembers } from "./teams";
+import { sendToGame } from "./webPubSub";
+
+// Every scored player of the game, best first, with tied scores sharing a
+// rank. Teams are scored in place of their members and list them.
+export async function getStandings(gameId: string): Promise<StandingsEntry[]> {
+	const all = await getStorage().players.listByGame(gameId);
+	const players = all
+		.filter((player) => player.totalScore !== undefined)
+		.sort(
+			(a, b) =>
+				b.totalScore - a.totalScore ||
+				a.screenName.localeCompare(b.screenName)
+		);
+
+	const entries = rankRows(
+		players.map((player) => ({
+			playerId: player.id,
+			name: player.screenName,
+			score: player.totalScore,
+			roundScores: player.roundScores ?? [player.totalScore],
+			breakdown: player.scoreBreakdown ?? emptyBreakdown(),
+		})),
+		{ offset: 0 }
+	);
+	return withMembers(entries, all);
+}
+
+// Sent as each judgement lands, so results screens can fill in live.
+// runningScore is the player's total in this game so far.
+export async function broadcastScoreUpdate(
+	judgement: Judgement,
+	runningScore: number,
+	context: InvocationContext
+) {
+	await sendToGame(
+		judgement.gameId,
+		{
+			message: "Score update",
+			type: "scoreUpdate",
+			gameId: judgement.gameId,
+			round: judgement.round,
+			playerId: judgement.playerId,
+			playerName: judgement.playerName,
+			questionId: judgement.questionId,
+			status: judgement.status,
+			totalScore: judgement.totalScore,
+			contextScore: judgement.contextScore,
+			technicalScore: judgement.technicalScore,
+			clarityScore: judgement.clarityScore,
+			scoreStdDev: judgement.scoreStdDev,
+			needsReview: judgement.needsReview,
+			runningScore,
+		},
+		context
+	);
+}
+
+// Sent once a round has been judged; final is true after the last round.
+// Games with separate team rankings also get teams and individuals ranked
+// on their own.
+export async function broadcastStandings(
+	game: Game,
+	context: InvocationContext
+) {
+	const round = getCurrentRound(game);
+	const standings = await getStandings(game.id);
+	await sendToGame(
+		game.id,
+		{
+			message: "Standings",
+			type: "standings",
+			gameId: game.id,
+			round,
+			final: round >= getTotalRounds(game),
+			standings,
+			...(getTeamSettings(game)?.rankings === "separate"
+				? splitStandings(standings)
+				: {}),
+		},
+		context
+	);
+}
@@ -0,0 +1,514 @@
+import {
+	Container,
+	CosmosClient,
+	PatchOperation,
+	SqlParameter,
+} from "@azure/cosmos";
+import { NotFoundError, PreconditionFailedError } from "./errors";
+import {
+	AuditEntry,
+	AuditLogRepository,
+	CounterRepository,
+	Game,
+	GameEvent,
+	GameEventRepository,
+	GameListField,
+	GameRecordListField,
+	GameRepository,
+	Job,
+	JobRepository,
+	Judge,
+	JudgeRepository,
+	Player,
+	PlayerRepository,
+	ScoredPlayerFilter,
+	Storage,
+	UpdateOptions,
+	UsageCounter,
+	UsageEntry,
+	UsageRepository,
+	UnitStage,
+	WorkUnit,
+	WorkUnitRepository,
+} from "./types";
+
+// Cosmos accepts at most 10 operations per patch request
+const MAX_PATCH_OPERATIONS = 10;
+
+function toPatchOperations(changes: object): PatchOperation[] {
+	return Object.entries(changes)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => ({ op: "add", path: `/${key}`, value }));
+}
+
+async function patchItem(
+	container: Container,
+	id: string,
+	partitionKey: string,
+	changes: object,
+	condition?: string,
+	extraOperations: PatchOperation[] = []
+) {
+	const operations = [...extraOperations, ...toPatchOperations(changes)];
+	// Split across requests, a condition would only guard the first one
+	if (condition && operations.length > MAX_PATCH_OPERATIONS) {
+		throw new Error(
+			`A conditional update takes at most ${MAX_PATCH_OPERATIONS} fields`
+		);
+	}
+
+	try {
+		for (let i = 0; i < operations.length; i += MAX_PATCH_OPERATIONS) {
+			await container.item(id, partitionKey).patch({
+				condition,
+				operations: operations.slice(i, i + MAX_PATCH_OPERATIONS),
+			});
+		}
+	} catch (error) {
+		if (error.code === 412) {
+			throw new PreconditionFailedError();
+		}
+		if (error.code === 404) {
+			throw new NotFoundError(`Item ${id} not found`);
+		}
+		throw error;
+	}
+}
+
+class CosmosGameRepository implements GameRepository {
+	constructor(private container: Container) {}
+
+	async get(id: string) {
+		const { resource } = await this.container.item(id, id).read<Game>();
+		return resource;
+	}
+
+	async getByJoinCode(code: string) {
+		const { resources } = await this.container.items
+			.query<Game>({
+				query: "SELECT * FROM c WHERE c.joinCode = @code AND NOT (c.status IN ('finished', 'cancelled'))",
+				parameters: [{ name: "@code", value: code }],
+			})
+			.fetchAll();
+		return resources[0];
+	}
+
+	async upsert(game: Game) {
+		const { resource } = await this.container.items.upsert<Game>(game);
+		return resource;
+	}
+
+	async update(id: string, changes: Partial<Game>, options?: UpdateOptions) {
+		const condition = options?.ifStatus
+			? `FROM c WHERE c.status = '${options.ifStatus}'`
+			: undefined;
+		await patchItem(this.container, id, id, changes, condition);
+	}
+
+	async listExpiredPromptWindows(now: string) {
+		const { resources } = await this.container.items
+			.query<Game>({
+				query: `SELECT * FROM c WHERE c.status = 'prompting'
+					AND IS_DEFINED(c.promptWindow)
+					AND c.promptWindow.deadline <= @now
+					AND NOT IS_DEFINED(c.promptWindow.lockedAt)
+					AND c.promptWindow.round = (IS_DEFINED(c.currentRound) ? c.currentRound : 1)`,
+				parameters: [{ name: "@now", value: now }],
+			})
+			.fetchAll();
+		return resources;
+	}
+
+	async append<K extends GameListField>(
+		id: string,
+		field: K,
+		item: Game[K][number]
+	) {
+		// playerIds holds the ids themselves; the other lists hold records
+		const match =
+			typeof item === "string"
+				? JSON.stringify(item)
+				: `{"id": ${JSON.stringify(item.id)}}, true`;
+		try {
+			await this.container.item(id, id).patch({
+				condition: `FROM c WHERE NOT IS_DEFINED(c.${field}) OR NOT ARRAY_CONTAINS(c.${field}, ${match})`,
+				operations: [{ op: "add", path: `/${field}/-`, value: item }],
+			});
+		} catch (error) {
+			// The item is already in the list
+			if (error.code === 412) {
+				return;
+			}
+			if (error.code === 404) {
+				throw new NotFoundError(`Game ${id} not found`);
+			}
+			throw error;
+		}
+	}
+
+	async replaceListItem<K extends GameRecordListField>(
+		id: string,
+		field: K,
+		index: number,
+		item: Game[K][number]
+	) {
+		await patchItem(
+			this.container,
+			id,
+			id,
+			{},
+			`FROM c WHERE c.${field}[${index}].id = ${JSON.stringify(item.id)}`,
+			[{ op: "set", path: `/${field}/${index}`, value: item }]
+		);
+	}
+}
+
+class CosmosJobRepository implements JobRepository {
+	constructor(private container: Container) {}
+
+	async get(id: string) {
+		const { resource } = await this.container.item(id, id).read<Job>();
+		return resource;
+	}
+
+	async create(job: Job) {
+		const { resource } = await this.container.items.create<Job>(job);
+		return resource;
+	}
+
+	async update(id: string, changes: Partial<Job>, options?: UpdateOptions) {
+		const condition = options?.ifStatus
+			? `FROM c WHERE c.status = '${options.ifStatus}'`
+			: undefined;
+		await patchItem(this.container, id, id, changes, condition);
+	}
+
+	async recordProgress(
+		id: string,
+		progress: { completed?: number; failed?: number }
+	) {
+		const { resource } = await this.container.item(id, id).patch<Job>([
+			{ op: "incr", path: "/completed", value: progress.completed ?? 0 },
+			{ op: "incr", path: "/failed", value: progress.failed ?? 0 },
+			{ op: "add", path: "/updatedAt", value: new Date().toISOString() },
+		]);
+		return resource;
+	}
+}
+
+class CosmosPlayerRepository implements PlayerRepository {
+	constructor(private container: Container) {}
+
+	async get(gameId: string, id: string) {
+		const { resource } = await this.container
+			.item(id, gameId)
+			.read<Player>();
+		return resource;
+	}
+
+	async listByGame(gameId: string) {
+		const { resources } = await this.container.items
+			.query<Player>({
+				query: "SELECT * FROM c WHERE c.gameId = @gameId",
+				parameters: [{ name: "@gameId", value: gameId }],
+			})
+			.fetchAll();
+		return resources;
+	}
+
+	async listTopScores({
+		gameId,
+		offset = 0,
+		limit,
+	}: {
+		gameId?: string;
+		offset?: number;
+		limit: number;
+	}) {
+		// Ties are broken by id so pages neither repeat nor skip players. The
+		// container needs a composite index on (totalScore DESC, id ASC).
+		const gameFilter = gameId ? "p.gameId = @gameId AND " : "";
+		const parameters: SqlParameter[] = [
+			{ name: "@offset", value: offset },
+			{ name: "@limit", value: limit },
+		];
+		if (gameId) {
+			parameters.push({ name: "@gameId", value: gameId });
+		}
+
+		const { resources } = await this.container.items
+			.query<Player>({
+				query: `SELECT * FROM players p WHERE ${gameFilter}IS_DEFINED(p.totalScore) ORDER BY p.totalScore DESC, p.id ASC OFFSET @offset LIMIT @limit`,
+				parameters,
+			})
+			.fetchAll();
+		return resources;
+	}
+
+	async listScored({ themeName, from, to }: ScoredPlayerFilter) {
+		const filters = ["IS_DEFINED(p.totalScore)"];
+		const parameters: SqlParameter[] = [];
+		if (themeName) {
+			filters.push("p.themeName = @themeName");
+			parameters.push({ name: "@themeName", value: themeName });
+		}
+		if (from) {
+			filters.push("p.scoredAt >= @from");
+			parameters.push({ name: "@from", value: from });
+		}
+		if (to) {
+			filters.push("p.scoredAt <= @to");
+			parameters.push({ name: "@to", value: to });
+		}
+
+		const { resources } = await this.container.items
+			.query<Player>({
+				query: `SELECT * FROM players p WHERE ${filters.join(" AND ")}`,
+				parameters,
+			})
+			.fetchAll();
+		return resources;
+	}
+
+	async upsert(player: Player) {
+		const { resource } = await this.container.items.upsert<Player>(player);
+		return resource;
+	}
+
+	async replace(player: Player) {
+		try {
+			const { resource } = await this.container
+				.item(player.id, player.gameId)
+				.replace<Player>(player, {
+					accessCondition: {
+						type: "IfMatch",
+						condition: player._etag,
+					},
+				});
+			return resource;
+		} catch (error) {
+			if (error.code === 412) {
+				throw new PreconditionFailedError();
+			}
+			if (error.code === 404) {
+				throw new NotFoundError(`Player ${player.id} not found`);
+			}
+			throw error;
+		}
+	}
+
+	async update(gameId: string, id: string, changes: Partial<Player>) {
+		await patchItem(this.container, id, gameId, changes);
+	}
+}
+
+class CosmosJudgeRepository implements JudgeRepository {
+	constructor(private container: Container) {}
+
+	async get(id: string) {
+		const { resource } = await this.container.item(id, id).read<Judge>();
+		return resource;
+	}
+
+	async list() {
+		const { resources } = await this.container.items
+			.query<Judge>({ query: "SELECT * FROM c" })
+			.fetchAll();
+		return resources;
+	}
+
+	async upsert(judge: Judge) {
+		const { resource } = await this.container.items.upsert<Judge>(judge);
+		return resource;
+	}
+
+	async delete(id: string) {
+		try {
+			await this.container.item(id, id).delete();
+		} catch (error) {
+			if (error.code === 404) {
+				throw new NotFoundError(`Judge ${id} not found`);
+			}
+			throw error;
+		}
+	}
+}
+
+// Partitioned by /gameId. Entries are only ever created, never changed.
+class CosmosAuditLogRepository implements AuditLogRepository {
+	constructor(private container: Container) {}
+
+	async append(entry: AuditEntry) {
+		await this.container.items.create<AuditEntry>(entry);
+	}
+
+	async listByGame(gameId: string) {
+		const { resources } = await this.container.items
+			.query<AuditEntry>({
+				query: "SELECT * FROM c WHERE c.gameId = @gameId ORDER BY c.at",
+				parameters: [{ name: "@gameId", value: gameId }],
+			})
+			.fetchAll();
+		return resources;
+	}
+}
+
+// Partitioned by /id with a default TTL of -1, so counters with a window are
+// deleted by Cosmos once it ends
+class CosmosCounterRepository implements CounterRepository {
+	constructor(private container: Container) {}
+
+	async increment(
+		id: string,
+		amount: number,
+		expiresAt?: string
+	): Promise<UsageCounter> {
+		try {
+			return await this.add(id, amount);
+		} catch (error) {
+			if (error.code !== 404) {
+				throw error;
+			}
+		}
+
+		const ttl = expiresAt
+			? Math.max(
+					1,
+					Math.ceil((Date.parse(expiresAt) - Date.now()) / 1000)
+			  )
+			: undefined;
+		try {
+			const { resource } = await this.container.items.create({
+				id,
+				count: amount,
+				expiresAt,
+				ttl,
+			});
+			return resource;
+		} catch (error) {
+			// Another request created it first
+			if (error.code === 409) {
+				return this.add(id, amount);
+			}
+			throw error;
+		}
+	}
+
+	private async add(id: string, amount: number) {
+		const { resource } = await this.container
+			.item(id, id)
+			.patch<UsageCounter>([
+				{ op: "incr", path: "/count", value: amount },
+			]);
+		return resource;
+	}
+}
+
+// Partitioned by /gameId. Event reports query across partitions.
+class CosmosUsageRepository implements UsageRepository {
+	constructor(private container: Container) {}
+
+	async append(entry: UsageEntry) {
+		await this.container.items.create<UsageEntry>(entry);
+	}
+
+	async listByGame(gameId: string) {
+		return this.query("c.gameId = @value", gameId);
+	}
+
+	async listByEvent(eventId: string) {
+		return this.query("c.eventId = @value", eventId);
+	}
+
+	async totalCost(gameId: string) {
+		const { resources } = await this.container.items
+			.query<number>({
+				query: "SELECT VALUE SUM(c.cost) FROM c WHERE c.gameId = @gameId",
+				parameters: [{ name: "@gameId", value: gameId }],
+			})
+			.fetchAll();
+		return resources[0] ?? 0;
+	}
+
+	private async query(filter: string, value: string) {
+		const { resources } = await this.container.items
+			.query<UsageEntry>({
+				query: `SELECT * FROM c WHERE ${filter} ORDER BY c.at`,
+				parameters: [{ name: "@value", value }],
+			})
+			.fetchAll();
+		return resources;
+	}
+}
+
+// Partitioned by /gameId
+class CosmosWorkUnitRepository implements WorkUnitRepository {
+	constructor(private container: Container) {}
+
+	async get(gameId: string, id: string) {
+		const { resource } = await this.container
+			.item(id, gameId)
+			.read<WorkUnit>();
+		return resource;
+	}
+
+	async listByGame(gameId: string, stage: UnitStage) {
+		const { resources } = await this.container.items
+			.query<WorkUnit>({
+				query: "SELECT * FROM c WHERE c.gameId = @gameId AND c.stage = @stage",
+				parameters: [
+					{ name: "@gameId", value: gameId },
+					{ name: "@stage", value: stage },
+				],
+			})
+			.fetchAll();
+		return resources;
+	}
+
+	async upsert(unit: WorkUnit) {
+		await this.container.items.upsert<WorkUnit>(unit);
+	}
+}
+
+// Partitioned by /gameId. Events are only ever created, never changed.
+class CosmosGameEventRepository implements GameEventRepository {
+	constructor(private container: Container) {}
+
+	async append(event: GameEvent) {
+		await this.container.items.create<GameEvent>(event);
+	}
+
+	async listByGame(gameId: string, since: number, limit: number) {
+		const { resources } = await this.container.items
+			.query<GameEvent>({
+				query: "SELECT * FROM c WHERE c.gameId = @gameId AND c.sequence > @since ORDER BY c.sequence OFFSET 0 LIMIT @limit",
+				parameters: [
+					{ name: "@gameId", value: gameId },
+					{ name: "@since", value: since },
+					{ name: "@limit", value: limit },
+				],
+			})
+			.fetchAll();
+		return resources;
+	}
+}
+
+export function createCosmosStorage(
+	connectionString: string,
+	databaseName: string
+): Storage {
+	const client = new CosmosClient(connectionString);
+	const database = client.database(databaseName);
+
+	return {
+		games: new CosmosGameRepository(database.container("games")),
+		players: new CosmosPlayerRepository(database.container("players")),
+		judges: new CosmosJudgeRepository(database.container("judges")),
+		jobs: new CosmosJobRepository(database.container("jobs")),
+		audit: new CosmosAuditLogRepository(database.container("auditLog")),
+		counters: new CosmosCounterRepository(database.container("counters")),
+		usage: new CosmosUsageRepository(database.container("usage")),
+		units: new CosmosWorkUnitRepository(database.container("workUnits")),
+		events: new CosmosGameEventRepository(database.container("gameEvents")),
+	};
+}
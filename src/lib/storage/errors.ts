@@ -0,0 +1,14 @@
+// Thrown when a conditional update finds the document in a different state
+export class PreconditionFailedError extends Error {
+	constructor(message = "The document was changed by another request") {
+		super(message);
+		this.name = "PreconditionFailedError";
+	}
+}
+
+export class NotFoundError extends Error {
+	constructor(message = "Document not found") {
+		super(message);
+		this.name = "NotFoundError";
+	}
+}
@@ -0,0 +1,47 @@
+import { createCosmosStorage } from "./cosmos";
+import { createMemoryStorage } from "./memory";
+import { Storage } from "./types";
+
+export * from "./errors";
+export * from "./types";
+export { createCosmosStorage } from "./cosmos";
+export { createMemoryStorage } from "./memory";
+
+let storage: Storage | undefined;
+
+// STORAGE_BACKEND selects where data lives:
+//   cosmos (default) - COSMOSDB_CONNECTION_STRING, COSMOSDB_DATABASE
+//   memory           - process memory only
+//   file             - a JSON file at STORAGE_FILE (default ./data/storage.json)
+export function getStorage(): Storage {
+	if (storage) {
+		return storage;
+	}
+
+	const backend = process.env.STORAGE_BACKEND || "cosmos";
+	switch (backend) {
+		case "cosmos":
+			storage = createCosmosStorage(
+				process.env.COSMOSDB_CONNECTION_STRING,
+				process.env.COSMOSDB_DATABASE || "mini-prompt-quiz"
+			);
+			break;
+		case "memory":
+			storage = createMemoryStorage();
+			break;
+		case "file":
+			storage = createMemoryStorage(
+				process.env.STORAGE_FILE || "./data/storage.json"
+			);
+			break;
+		default:
+			throw new Error(`Unknown STORAGE_BACKEND "${backend}"`);
+	}
+
+	return storage;
+}
+
+// Lets tests and local scripts swap in their own backend
+export function setStorage(value: Storage | undefined) {
+	storage = value;
+}
@@ -0,0 +1,479 @@
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuid } from "uuid";
+import { NotFoundError, PreconditionFailedError } from "./errors";
+import {
+	AuditEntry,
+	AuditLogRepository,
+	CounterRepository,
+	Game,
+	GameEvent,
+	GameEventRepository,
+	GameListField,
+	GameRecordListField,
+	GameRepository,
+	Job,
+	JobRepository,
+	Judge,
+	JudgeRepository,
+	Player,
+	PlayerRepository,
+	ScoredPlayerFilter,
+	Storage,
+	UpdateOptions,
+	UsageCounter,
+	UsageEntry,
+	UsageRepository,
+	UnitStage,
+	WorkUnit,
+	WorkUnitRepository,
+} from "./types";
+
+type Collections = {
+	games: Record<string, Game>;
+	players: Record<string, Player>;
+	judges: Record<string, Judge>;
+	jobs: Record<string, Job>;
+	audit: Record<string, AuditEntry>;
+	counters: Record<string, UsageCounter>;
+	usage: Record<string, UsageEntry>;
+	units: Record<string, WorkUnit>;
+	events: Record<string, GameEvent>;
+};
+
+// Documents are copied on the way in and out so callers can't mutate
+// stored state by accident, the same as with a real database
+function clone<T>(value: T): T {
+	return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function withoutUndefined<T extends object>(changes: T): Partial<T> {
+	return Object.fromEntries(
+		Object.entries(changes).filter(([, value]) => value !== undefined)
+	) as Partial<T>;
+}
+
+// playerIds holds the ids themselves; the other lists hold records
+function listItemId(item: string | { id: string }) {
+	return typeof item === "string" ? item : item.id;
+}
+
+function playerKey(gameId: string, id: string) {
+	return `${gameId}/${id}`;
+}
+
+// Holds every collection in memory. When a file path is given, the data is
+// loaded from it on start and written back after every change.
+class MemoryStore {
+	data: Collections;
+
+	constructor(private filePath?: string) {
+		this.data = {
+			games: {},
+			players: {},
+			judges: {},
+			jobs: {},
+			audit: {},
+			counters: {},
+			usage: {},
+			units: {},
+			events: {},
+		};
+
+		if (filePath && fs.existsSync(filePath)) {
+			this.data = {
+				...this.data,
+				...JSON.parse(fs.readFileSync(filePath, "utf8")),
+			};
+		}
+	}
+
+	save() {
+		if (!this.filePath) {
+			return;
+		}
+		fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+		fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, "\t"));
+	}
+}
+
+class MemoryGameRepository implements GameRepository {
+	constructor(private store: MemoryStore) {}
+
+	async get(id: string) {
+		return clone(this.store.data.games[id]);
+	}
+
+	async getByJoinCode(code: string) {
+		return clone(
+			Object.values(this.store.data.games).find(
+				(game) =>
+					game.joinCode === code &&
+					game.status !== "finished" &&
+					game.status !== "cancelled"
+			)
+		);
+	}
+
+	async upsert(game: Game) {
+		this.store.data.games[game.id] = clone(game);
+		this.store.save();
+		return clone(game);
+	}
+
+	async update(id: string, changes: Partial<Game>, options?: UpdateOptions) {
+		const game = this.store.data.games[id];
+		if (!game) {
+			throw new NotFoundError(`Game ${id} not found`);
+		}
+		if (options?.ifStatus && game.status !== options.ifStatus) {
+			throw new PreconditionFailedError();
+		}
+
+		this.store.data.games[id] = {
+			...game,
+			...clone(withoutUndefined(changes)),
+		};
+		this.store.save();
+	}
+
+	async listExpiredPromptWindows(now: string) {
+		return Object.values(this.store.data.games)
+			.filter(
+				(game) =>
+					game.status === "prompting" &&
+					game.promptWindow &&
+					game.promptWindow.deadline <= now &&
+					!game.promptWindow.lockedAt &&
+					game.promptWindow.round === (game.currentRound ?? 1)
+			)
+			.map(clone);
+	}
+
+	async append<K extends GameListField>(
+		id: string,
+		field: K,
+		item: Game[K][number]
+	) {
+		const game = this.store.data.games[id];
+		if (!game) {
+			throw new NotFoundError(`Game ${id} not found`);
+		}
+
+		const list = (game[field] ?? []) as Game[K][number][];
+		if (
+			list.some((existing) => listItemId(existing) === listItemId(item))
+		) {
+			return;
+		}
+		game[field] = [...list, clone(item)] as Game[K];
+		this.store.save();
+	}
+
+	async replaceListItem<K extends GameRecordListField>(
+		id: string,
+		field: K,
+		index: number,
+		item: Game[K][number]
+	) {
+		const game = this.store.data.games[id];
+		if (!game) {
+			throw new NotFoundError(`Game ${id} not found`);
+		}
+
+		const list = (game[field] ?? []) as Game[K][number][];
+		if (list[index]?.id !== item.id) {
+			throw new PreconditionFailedError();
+		}
+		list[index] = clone(item);
+		this.store.save();
+	}
+}
+
+class MemoryJobRepository implements JobRepository {
+	constructor(private store: MemoryStore) {}
+
+	async get(id: string) {
+		return clone(this.store.data.jobs[id]);
+	}
+
+	async create(job: Job) {
+		if (this.store.data.jobs[job.id]) {
+			throw new Error(`Job ${job.id} already exists`);
+		}
+		this.store.data.jobs[job.id] = clone(job);
+		this.store.save();
+		return clone(job);
+	}
+
+	async update(id: string, changes: Partial<Job>, options?: UpdateOptions) {
+		const job = this.store.data.jobs[id];
+		if (!job) {
+			throw new NotFoundError(`Job ${id} not found`);
+		}
+		if (options?.ifStatus && job.status !== options.ifStatus) {
+			throw new PreconditionFailedError();
+		}
+
+		this.store.data.jobs[id] = {
+			...job,
+			...clone(withoutUndefined(changes)),
+		};
+		this.store.save();
+	}
+
+	async recordProgress(
+		id: string,
+		progress: { completed?: number; failed?: number }
+	) {
+		const job = this.store.data.jobs[id];
+		if (!job) {
+			throw new NotFoundError(`Job ${id} not found`);
+		}
+
+		job.completed += progress.completed ?? 0;
+		job.failed += progress.failed ?? 0;
+		job.updatedAt = new Date().toISOString();
+		this.store.save();
+		return clone(job);
+	}
+}
+
+class MemoryPlayerRepository implements PlayerRepository {
+	constructor(private store: MemoryStore) {}
+
+	async get(gameId: string, id: string) {
+		return clone(this.store.data.players[playerKey(gameId, id)]);
+	}
+
+	async listByGame(gameId: string) {
+		return clone(
+			Object.values(this.store.data.players).filter(
+				(player) => player.gameId === gameId
+			)
+		);
+	}
+
+	async listTopScores({
+		gameId,
+		offset = 0,
+		limit,
+	}: {
+		gameId?: string;
+		offset?: number;
+		limit: number;
+	}) {
+		return clone(
+			Object.values(this.store.data.players)
+				.filter((player) => player.totalScore !== undefined)
+				.filter((player) => !gameId || player.gameId === gameId)
+				// Ties in id order, compared the way Cosmos compares strings
+				.sort(
+					(a, b) =>
+						b.totalScore - a.totalScore ||
+						(a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+				)
+				.slice(offset, offset + limit)
+		);
+	}
+
+	async listScored({ themeName, from, to }: ScoredPlayerFilter) {
+		return clone(
+			Object.values(this.store.data.players).filter(
+				(player) =>
+					player.totalScore !== undefined &&
+					(!themeName || player.themeName === themeName) &&
+					(!from || (player.scoredAt && player.scoredAt >= from)) &&
+					(!to || (player.scoredAt && player.scoredAt <= to))
+			)
+		);
+	}
+
+	async upsert(player: Player) {
+		const stored = { ...clone(player), _etag: uuid() };
+		this.store.data.players[playerKey(player.gameId, player.id)] = stored;
+		this.store.save();
+		return clone(stored);
+	}
+
+	async replace(player: Player) {
+		const existing =
+			this.store.data.players[playerKey(player.gameId, player.id)];
+		if (!existing) {
+			throw new NotFoundError(`Player ${player.id} not found`);
+		}
+		if (existing._etag !== player._etag) {
+			throw new PreconditionFailedError();
+		}
+		return this.upsert(player);
+	}
+
+	async update(gameId: string, id: string, changes: Partial<Player>) {
+		const key = playerKey(gameId, id);
+		const player = this.store.data.players[key];
+		if (!player) {
+			throw new NotFoundError(`Player ${id} not found`);
+		}
+
+		this.store.data.players[key] = {
+			...player,
+			...clone(withoutUndefined(changes)),
+			_etag: uuid(),
+		};
+		this.store.save();
+	}
+}
+
+class MemoryJudgeRepository implements JudgeRepository {
+	constructor(private store: MemoryStore) {}
+
+	async get(id: string) {
+		return clone(this.store.data.judges[id]);
+	}
+
+	async list() {
+		return clone(Object.values(this.store.data.judges));
+	}
+
+	async upsert(judge: Judge) {
+		this.store.data.judges[judge.id] = clone(judge);
+		this.store.save();
+		return clone(judge);
+	}
+
+	async delete(id: string) {
+		if (!this.store.data.judges[id]) {
+			throw new NotFoundError(`Judge ${id} not found`);
+		}
+		delete this.store.data.judges[id];
+		this.store.save();
+	}
+}
+
+class MemoryAuditLogRepository implements AuditLogRepository {
+	constructor(private store: MemoryStore) {}
+
+	async append(entry: AuditEntry) {
+		this.store.data.audit[entry.id] = clone(entry);
+		this.store.save();
+	}
+
+	async listByGame(gameId: string) {
+		return clone(
+			Object.values(this.store.data.audit)
+				.filter((entry) => entry.gameId === gameId)
+				.sort((a, b) => a.at.localeCompare(b.at))
+		);
+	}
+}
+
+class MemoryCounterRepository implements CounterRepository {
+	constructor(private store: MemoryStore) {}
+
+	async increment(id: string, amount: number, expiresAt?: string) {
+		const existing = this.store.data.counters[id];
+		// Expired counters are dropped here instead of by a TTL
+		const counter: UsageCounter =
+			existing &&
+			!(
+				existing.expiresAt &&
+				existing.expiresAt <= new Date().toISOString()
+			)
+				? { ...existing, count: existing.count + amount }
+				: { id, count: amount, expiresAt };
+
+		this.store.data.counters[id] = counter;
+		this.store.save();
+		return clone(counter);
+	}
+}
+
+class MemoryUsageRepository implements UsageRepository {
+	constructor(private store: MemoryStore) {}
+
+	async append(entry: UsageEntry) {
+		this.store.data.usage[entry.id] = clone(entry);
+		this.store.save();
+	}
+
+	async listByGame(gameId: string) {
+		return this.list((entry) => entry.gameId === gameId);
+	}
+
+	async listByEvent(eventId: string) {
+		return this.list((entry) => entry.eventId === eventId);
+	}
+
+	async totalCost(gameId: string) {
+		return Object.values(this.store.data.usage)
+			.filter((entry) => entry.gameId === gameId)
+			.reduce((total, entry) => total + entry.cost, 0);
+	}
+
+	private list(filter: (entry: UsageEntry) => boolean) {
+		return clone(
+			Object.values(this.store.data.usage)
+				.filter(filter)
+				.sort((a, b) => a.at.localeCompare(b.at))
+		);
+	}
+}
+
+class MemoryWorkUnitRepository implements WorkUnitRepository {
+	constructor(private store: MemoryStore) {}
+
+	async get(gameId: string, id: string) {
+		return clone(this.store.data.units[playerKey(gameId, id)]);
+	}
+
+	async listByGame(gameId: string, stage: UnitStage) {
+		return clone(
+			Object.values(this.store.data.units).filter(
+				(unit) => unit.gameId === gameId && unit.stage === stage
+			)
+		);
+	}
+
+	async upsert(unit: WorkUnit) {
+		this.store.data.units[playerKey(unit.gameId, unit.id)] = clone(unit);
+		this.store.save();
+	}
+}
+
+class MemoryGameEventRepository implements GameEventRepository {
+	constructor(private store: MemoryStore) {}
+
+	async append(event: GameEvent) {
+		this.store.data.events[event.id] = clone(event);
+		this.store.save();
+	}
+
+	async listByGame(gameId: string, since: number, limit: number) {
+		return clone(
+			Object.values(this.store.data.events)
+				.filter(
+					(event) => event.gameId === gameId && event.sequence > since
+				)
+				.sort((a, b) => a.sequence - b.sequence)
+				.slice(0, limit)
+		);
+	}
+}
+
+// Without a file path nothing is persisted and the data lives as long as the
+// process does, which is what tests want
+export function createMemoryStorage(filePath?: string): Storage {
+	const store = new MemoryStore(filePath);
+
+	return {
+		games: new MemoryGameRepository(store),
+		players: new MemoryPlayerRepository(store),
+		judges: new MemoryJudgeRepository(store),
+		jobs: new MemoryJobRepository(store),
+		audit: new MemoryAuditLogRepository(store),
+		counters: new MemoryCounterRepository(store),
+		usage: new MemoryUsageRepository(store),
+		units: new MemoryWorkUnitRepository(store),
+		events: new MemoryGameEventRepository(store),
+	};
+}
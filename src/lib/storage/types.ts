@@ -0,0 +1,625 @@
+import { GamePhase } from "../gamePhase";
+
+export interface JudgeQuestion {
+	id: string;
+	content: string;
+}
+
+// Generation stops once the game's estimated cost reaches limit, see lib/usage
+export interface GameBudget {
+	// US dollars
+	limit: number;
+	// Set when generation was stopped by the budget
+	exceededAt?: string;
+}
+
+// How much players may use practicePrompt, see lib/practice
+export interface PracticeRules {
+	// Practice requests one player may make per window
+	playerLimit: number;
+	windowSeconds: number;
+	// Model calls practice may use for the whole game, answers and scoring
+	// together
+	gameQuota: number;
+	// Whether players can ask the judge for a practice score
+	allowScoring: boolean;
+}
+
+// Limits on what players may submit as a prompt, see lib/promptRules
+export interface PromptRules {
+	minLength?: number;
+	maxLength?: number;
+	// Checked against estimateTokens, not a real tokenizer
+	maxTokens?: number;
+	// Matched case-insensitively anywhere in the prompt
+	bannedPhrases?: string[];
+	// Language code, one of PROMPT_LANGUAGES
+	language?: string;
+	allowSpecialCharacters?: boolean;
+}
+
+export interface Judge {
+	id: string;
+	theme: string;
+	asst_id: string;
+	// Rubric used when the judge runs over plain chat instead of an assistant
+	instructions?: string;
+	questions: JudgeQuestion[];
+	// Public questions players can practice on; never asked in a game
+	sampleQuestions?: JudgeQuestion[];
+	// Defaults for games using this judge; a game's own rules take precedence
+	promptRules?: PromptRules;
+	// Disabled judges are kept but never picked for new games
+	disabled?: boolean;
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+// One submitted prompt; versions are numbered from 1 in submission order
+export interface PromptVersion {
+	version: number;
+	prompt: string;
+	characters: number;
+	round: number;
+	submittedAt: string;
+	// Rules from lib/injection the prompt matched, if any
+	injectionSignals?: string[];
+	// On a team prompt, the member who submitted this version
+	editedBy?: string;
+	editedByName?: string;
+}
+
+// combined ranks teams and players without a team in one list; separate
+// gives each its own ranking, side by side
+export type TeamRankings = "combined" | "separate";
+
+// Turns on teams for a game, see lib/teams
+export interface TeamSettings {
+	maxMembers: number;
+	rankings: TeamRankings;
+}
+
+// Set on the player record that stands for a team. Members point at it with
+// teamId and edit its prompt; answers, judgements and scores go to the team.
+export interface TeamInfo {
+	createdBy: string;
+	lastEditedBy?: string;
+	lastEditedByName?: string;
+	lastEditedAt?: string;
+}
+
+// Criterion scores summed over all of a player's judged answers
+export interface ScoreBreakdown {
+	context: number;
+	technical: number;
+	clarity: number;
+}
+
+export type Player = {
+	id: string;
+	gameId: string;
+	screenName: string;
+	email: string;
+	// The final prompt, the one answers are generated from
+	prompt?: string;
+	promptVersions?: PromptVersion[];
+	finalVersion?: number;
+	// Cumulative over all rounds played so far
+	totalScore?: number;
+	// Score per round, roundScores[0] being round 1
+	roundScores?: number[];
+	scoreBreakdown?: ScoreBreakdown;
+	// When totalScore was last written, for date filters across games
+	scoredAt?: string;
+	themeName?: string;
+	// Lets the player get a new session token on another device, see recoverPlayer
+	recoveryCodeHash?: string;
+	// The team the player plays in; their own prompt is not used while set
+	teamId?: string;
+	// Only on team records; screenName is the team's name
+	team?: TeamInfo;
+	// Changed by storage on every write, see PlayerRepository.replace
+	_etag?: string;
+};
+
+// Tokens used by the model calls behind one answer, judgement or practice
+// run, see lib/usage
+export interface Usage {
+	model: string;
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	// Estimated in US dollars from the price table
+	cost: number;
+}
+
+export interface AIAnswer {
+	id: string;
+	gameId: string;
+	playerId: string;
+	playerName: string;
+	questionId: string;
+	round?: number;
+	question: string;
+	assistantPrompt: string;
+	promptVersion?: number;
+	answer: string;
+	usage?: Usage;
+	timestamp: string;
+}
+
+export type InjectionAction = "flag" | "penalize" | "review";
+
+// What a game does with answers that look like they try to steer the judge
+export interface InjectionRules {
+	action: InjectionAction;
+	// Taken off each criterion when the action is penalize
+	penaltyPercent: number;
+}
+
+// One heuristic match in the player's prompt or the answer it produced
+export interface InjectionSignal {
+	source: "prompt" | "answer";
+	rule: string;
+	excerpt: string;
+}
+
+// Recorded on a judgement whose prompt or answer matched, with what was done
+export interface InjectionFlag {
+	signals: InjectionSignal[];
+	action: InjectionAction;
+	penaltyPercent?: number;
+	totalBeforePenalty?: number;
+}
+
+export type ScoreAggregation = "mean" | "median" | "trimmedMean";
+
+// One panel member's scores for an answer, kept next to the aggregate
+export interface PanelScore {
+	judgeId: string;
+	sample: number;
+	status: "judged" | "unjudged";
+	contextScore?: number;
+	technicalScore?: number;
+	clarityScore?: number;
+	totalScore?: number;
+	justification?: string;
+	error?: string;
+}
+
+// Several judges, or one judge sampled several times, scoring each answer
+export interface JudgePanel {
+	// Panel members; game.judge still sets the theme and questions
+	judges: Judge[];
+	samples: number;
+	aggregation: ScoreAggregation;
+	// Answers whose panel totals spread wider than this are flagged for review
+	disagreementThreshold: number;
+}
+
+export type AppealStatus = "pending" | "reevaluating" | "resolved" | "rejected";
+
+export interface Appeal {
+	reason: string;
+	status: AppealStatus;
+	filedAt: string;
+	resolvedAt?: string;
+	resolution?: string;
+}
+
+// The judge's own scores, kept when a judgement is overridden or re-evaluated
+export interface OriginalScores {
+	contextScore: number;
+	technicalScore: number;
+	clarityScore: number;
+	totalScore: number;
+	justification: string;
+}
+
+export interface Judgement {
+	id: string;
+	gameId: string;
+	aiAnswerId: string;
+	playerId: string;
+	playerName?: string;
+	questionId: string;
+	round?: number;
+	contextScore: number;
+	technicalScore: number;
+	clarityScore: number;
+	totalScore: number;
+	justification: string;
+	// Unjudged answers score 0 and carry the reason in error
+	status?: "judged" | "unjudged";
+	error?: string;
+	attempts?: number;
+	// Only set when a panel scored the answer
+	panelScores?: PanelScore[];
+	aggregation?: ScoreAggregation;
+	scoreStdDev?: number;
+	needsReview?: boolean;
+	injection?: InjectionFlag;
+	// Set once the scores no longer come from the first judging run
+	original?: OriginalScores;
+	overriddenBy?: string;
+	overrideReason?: string;
+	appeal?: Appeal;
+	usage?: Usage;
+	timestamp: string;
+}
+
+// The questions asked in one round; their content lives on game.judge.questions
+export interface GameRound {
+	number: number;
+	questionIds: string[];
+}
+
+// When prompts for a round close. Only the window of the current round applies.
+export interface PromptWindow {
+	round: number;
+	deadline: string;
+	// Start answer generation as soon as the window closes
+	autoGenerateAnswers?: boolean;
+	// Set once the close has been handled, see lockExpiredPrompts
+	lockedAt?: string;
+	// Why autoGenerateAnswers could not start answers after the lock
+	generationError?: string;
+}
+
+// One row of a game's ranked results
+export interface StandingsEntry {
+	rank: number;
+	playerId: string;
+	name: string;
+	score: number;
+	roundScores: number[];
+	breakdown: ScoreBreakdown;
+	// Screen names of the members when the entry is a team
+	members?: string[];
+}
+
+// A host-paced reveal of the results, last place first
+export interface RevealState {
+	round: number;
+	// Standings at the start of the reveal, in reveal order
+	entries: StandingsEntry[];
+	revealed: number;
+	startedAt: string;
+}
+
+// reevaluate queues the appealed answer for the judges again; review leaves
+// it for the host
+export type AppealMode = "reevaluate" | "review";
+
+export interface Game {
+	id: string;
+	// Older games were stored with status "waiting", see getGamePhase
+	status: GamePhase | "waiting";
+	statusChangedAt?: string;
+	// Who created the game and which event it belongs to, see canManageGame
+	hostId?: string;
+	eventId?: string;
+	// Short code players can type instead of the id, see lib/joinCodes
+	joinCode?: string;
+	players: Player[];
+	playerIds?: string[];
+	judge: Judge;
+	panel?: JudgePanel;
+	// Missing on games created before rounds existed, see lib/rounds
+	rounds?: GameRound[];
+	currentRound?: number;
+	promptWindow?: PromptWindow;
+	reveal?: RevealState;
+	// What happens to a player's appeal; see appealJudgement
+	appealMode?: AppealMode;
+	budget?: GameBudget;
+	// Missing means the defaults in lib/practice
+	practice?: PracticeRules;
+	// Overrides the judge's prompt rules field by field
+	promptRules?: PromptRules;
+	// Missing means suspected injections are only flagged, see lib/injection
+	injectionRules?: InjectionRules;
+	// Missing means everyone plays on their own
+	teams?: TeamSettings;
+	// Answers and judgements of every round, tagged with their round
+	aiResponses?: AIAnswer[];
+	judgements?: Judgement[];
+}
+
+// Fields on the game that hold a list other requests may append to
+export type GameListField =
+	| "aiResponses"
+	| "judgements"
+	| "players"
+	| "playerIds";
+
+// The lists whose items can be replaced in place, see replaceListItem
+export type GameRecordListField = Exclude<GameListField, "playerIds">;
+
+export type JobType = "answers" | "judgements" | "reevaluations";
+
+export type JobStatus = "running" | "completed";
+
+// A batch of queued work for one game. Every unit counts towards either
+// completed or failed, and the job is done once they add up to total.
+export interface Job {
+	id: string;
+	gameId: string;
+	type: JobType;
+	status: JobStatus;
+	total: number;
+	completed: number;
+	failed: number;
+	createdAt: string;
+	updatedAt: string;
+	finishedAt?: string;
+}
+
+// The stages of a round that are worked through one (player, question) pair
+// at a time
+export type UnitStage = "answers" | "judgements";
+
+// pending until a worker finishes it; filtered when the content filter
+// blocked the model call, which retrying will not change
+export type UnitStatus = "pending" | "done" | "failed" | "filtered";
+
+// Where one (player, question) pair of a round is in one stage, see lib/units
+export interface WorkUnit {
+	id: string;
+	gameId: string;
+	stage: UnitStage;
+	round: number;
+	playerId: string;
+	questionId: string;
+	// The answer generated, or the answer judged
+	aiAnswerId: string;
+	status: UnitStatus;
+	error?: string;
+	// How many times the unit has been queued
+	attempts: number;
+	// The job that last queued the unit
+	jobId: string;
+	updatedAt: string;
+}
+
+export type AuditAction =
+	| "scoreOverride"
+	| "appealFiled"
+	| "appealRejected"
+	| "reevaluation";
+
+// One entry of a game's append-only audit log
+export interface AuditEntry {
+	id: string;
+	gameId: string;
+	action: AuditAction;
+	// Who made the change: a host or admin id, a player id, or "system"
+	actor: string;
+	actorRole: "admin" | "host" | "player" | "system";
+	// The judgement that was changed
+	targetId: string;
+	before?: unknown;
+	after?: unknown;
+	reason?: string;
+	at: string;
+}
+
+// What happened, by event type. Events hold ids and scores but no prompt or
+// answer text, since every client of the game may read them.
+export type GameEventData =
+	| { type: "playerJoined"; playerId: string; screenName: string }
+	| {
+			type: "promptSubmitted";
+			// The team's id for a team prompt
+			playerId: string;
+			screenName: string;
+			version: number;
+			characters: number;
+			round: number;
+			// The member who edited a team prompt
+			editedBy?: string;
+	  }
+	| { type: "phaseChanged"; from: GamePhase; to: GamePhase }
+	| {
+			type: "answerGenerated";
+			aiAnswerId: string;
+			playerId: string;
+			playerName: string;
+			questionId: string;
+			round: number;
+	  }
+	| {
+			type: "judgementRecorded";
+			judgementId: string;
+			aiAnswerId: string;
+			playerId: string;
+			questionId: string;
+			round: number;
+			status: "judged" | "unjudged";
+			totalScore: number;
+			// Set when an appeal had the answer judged again
+			reevaluation?: boolean;
+	  }
+	| {
+			type: "scoreOverridden";
+			judgementId: string;
+			playerId: string;
+			before: number;
+			after: number;
+			reason: string;
+	  };
+
+export type GameEventType = GameEventData["type"];
+
+// One entry of a game's append-only timeline, see lib/events
+export type GameEvent = GameEventData & {
+	id: string;
+	gameId: string;
+	// Counts up from 1 per game in the order events were recorded. A number
+	// can be skipped when recording fails, but is never used twice.
+	sequence: number;
+	// Who caused it: a player or host id, or "system"
+	actor: string;
+	at: string;
+};
+
+export interface UpdateOptions {
+	// Only apply the update if the stored game or job still has this status
+	ifStatus?: string;
+}
+
+export interface GameRepository {
+	get(id: string): Promise<Game | undefined>;
+	// The game using this join code that is not finished or cancelled
+	getByJoinCode(code: string): Promise<Game | undefined>;
+	upsert(game: Game): Promise<Game>;
+	update(
+		id: string,
+		changes: Partial<Game>,
+		options?: UpdateOptions
+	): Promise<void>;
+	// Games still prompting whose current prompt window closed before now
+	// and has not been locked yet
+	listExpiredPromptWindows(now: string): Promise<Game[]>;
+	// Appends in one operation, so concurrent workers don't overwrite each
+	// other. An item whose id (for playerIds, the id itself) is already in
+	// the list is left out, so a redelivered queue message doesn't store its
+	// answer or judgement twice.
+	append<K extends GameListField>(
+		id: string,
+		field: K,
+		item: Game[K][number]
+	): Promise<void>;
+	// Replaces the item at index, failing with PreconditionFailedError if the
+	// item stored there no longer has the same id
+	replaceListItem<K extends GameRecordListField>(
+		id: string,
+		field: K,
+		index: number,
+		item: Game[K][number]
+	): Promise<void>;
+}
+
+export interface ScoredPlayerFilter {
+	themeName?: string;
+	// Inclusive ISO timestamps compared against scoredAt
+	from?: string;
+	to?: string;
+}
+
+export interface PlayerRepository {
+	get(gameId: string, id: string): Promise<Player | undefined>;
+	listByGame(gameId: string): Promise<Player[]>;
+	// Players with a score, highest first, optionally limited to one game
+	listTopScores(options: {
+		gameId?: string;
+		offset?: number;
+		limit: number;
+	}): Promise<Player[]>;
+	// Every scored player matching the filter, in no particular order
+	listScored(filter: ScoredPlayerFilter): Promise<Player[]>;
+	upsert(player: Player): Promise<Player>;
+	// Writes the player only if the stored record still has the same _etag,
+	// failing with PreconditionFailedError if another write came in between
+	replace(player: Player): Promise<Player>;
+	update(gameId: string, id: string, changes: Partial<Player>): Promise<void>;
+}
+
+export interface JudgeRepository {
+	get(id: string): Promise<Judge | undefined>;
+	list(): Promise<Judge[]>;
+	upsert(judge: Judge): Promise<Judge>;
+	delete(id: string): Promise<void>;
+}
+
+export interface JobRepository {
+	get(id: string): Promise<Job | undefined>;
+	create(job: Job): Promise<Job>;
+	update(
+		id: string,
+		changes: Partial<Job>,
+		options?: UpdateOptions
+	): Promise<void>;
+	// Adds to the counters in one operation and returns the job as it is
+	// right after, so exactly one caller sees the last unit finish
+	recordProgress(
+		id: string,
+		progress: { completed?: number; failed?: number }
+	): Promise<Job>;
+}
+
+export interface WorkUnitRepository {
+	get(gameId: string, id: string): Promise<WorkUnit | undefined>;
+	listByGame(gameId: string, stage: UnitStage): Promise<WorkUnit[]>;
+	upsert(unit: WorkUnit): Promise<void>;
+}
+
+export interface GameEventRepository {
+	append(event: GameEvent): Promise<void>;
+	// At most limit events with a sequence above since, lowest first
+	listByGame(
+		gameId: string,
+		since: number,
+		limit: number
+	): Promise<GameEvent[]>;
+}
+
+export interface AuditLogRepository {
+	append(entry: AuditEntry): Promise<void>;
+	// Oldest first
+	listByGame(gameId: string): Promise<AuditEntry[]>;
+}
+
+export type UsageKind = "answer" | "judgement" | "reevaluation" | "practice";
+
+// One line of a game's usage ledger. Entries are only ever added, so the
+// ledger still counts answers and judgements that were later replaced.
+export interface UsageEntry extends Usage {
+	id: string;
+	gameId: string;
+	eventId?: string;
+	playerId?: string;
+	kind: UsageKind;
+	// The answer or judgement the usage is for
+	targetId?: string;
+	at: string;
+}
+
+export interface UsageRepository {
+	append(entry: UsageEntry): Promise<void>;
+	listByGame(gameId: string): Promise<UsageEntry[]>;
+	listByEvent(eventId: string): Promise<UsageEntry[]>;
+	totalCost(gameId: string): Promise<number>;
+}
+
+// A usage counter, see lib/rateLimit
+export interface UsageCounter {
+	id: string;
+	count: number;
+	// When the counter's window ends; counters without one never reset
+	expiresAt?: string;
+}
+
+export interface CounterRepository {
+	// Adds to the counter in one operation, creating it with the given expiry
+	// if needed, and returns it as it is right after, so concurrent callers
+	// each see their own count
+	increment(
+		id: string,
+		amount: number,
+		expiresAt?: string
+	): Promise<UsageCounter>;
+}
+
+export interface Storage {
+	games: GameRepository;
+	players: PlayerRepository;
+	judges: JudgeRepository;
+	jobs: JobRepository;
+	audit: AuditLogRepository;
+	counters: CounterRepository;
+	usage: UsageRepository;
+	units: WorkUnitRepository;
+	events: GameEventRepository;
+}
@@ -0,0 +1,318 @@
+import { HttpResponseInit, InvocationContext } from "@azure/functions";
+import { v4 as uuid } from "uuid";
+import { requirePhase } from "./gamePhase";
+import { rankRows } from "./leaderboard";
+import { toPublicPlayer } from "./players";
+import {
+	Game,
+	getStorage,
+	Player,
+	PreconditionFailedError,
+	StandingsEntry,
+	TeamRankings,
+	TeamSettings,
+} from "./storage";
+import { sendToGame } from "./webPubSub";
+
+export const DEFAULT_TEAM_SIZE = 5;
+export const TEAM_RANKINGS: TeamRankings[] = ["combined", "separate"];
+export const MAX_TEAM_NAME_LENGTH = 40;
+
+const MAX_JOIN_ATTEMPTS = 3;
+
+// Undefined for games where everyone plays on their own
+export function getTeamSettings(
+	game: Pick<Game, "teams">
+): TeamSettings | undefined {
+	return game.teams;
+}
+
+// Teams are stored as player records, so answers, judgements and scores
+// need nothing special for them
+export function isTeam(player: Player): boolean {
+	return !!player.team;
+}
+
+export function createTeamRecord(
+	gameId: string,
+	name: string,
+	creator: Player
+): Player {
+	return {
+		id: uuid(),
+		gameId,
+		screenName: name,
+		// Teams cannot sign in, so they have no email or recovery code
+		email: "",
+		team: { createdBy: creator.id },
+	};
+}
+
+export function getMembers(players: Player[], teamId: string): Player[] {
+	return players.filter((player) => player.teamId === teamId);
+}
+
+// Who answers are generated for: teams with at least one member, and
+// players who are not on a team
+export function getEntrants(players: Player[]): Player[] {
+	return players.filter((player) =>
+		isTeam(player)
+			? getMembers(players, player.id).length > 0
+			: !player.teamId
+	);
+}
+
+// The record a player's prompt is kept on: their team's while they are in
+// one, otherwise their own
+export async function getPromptOwner(player: Player): Promise<Player> {
+	if (!player.teamId) {
+		return player;
+	}
+	return (
+		(await getStorage().players.get(player.gameId, player.teamId)) ?? player
+	);
+}
+
+export function toPublicTeam(team: Player, members: Player[]) {
+	return {
+		...toPublicPlayer(team),
+		members: members.map((member) => ({
+			id: member.id,
+			screenName: member.screenName,
+		})),
+	};
+}
+
+export async function listPublicTeams(gameId: string) {
+	const players = await getStorage().players.listByGame(gameId);
+	return players
+		.filter(isTeam)
+		.map((team) => toPublicTeam(team, getMembers(players, team.id)));
+}
+
+// Sent to the game's group whenever someone creates, joins or leaves a team
+export async function broadcastTeamUpdate(
+	gameId: string,
+	action: "created" | "joined" | "left",
+	player: Player,
+	teamId: string,
+	context: InvocationContext
+) {
+	const players = await getStorage().players.listByGame(gameId);
+	const team = players.find((p) => p.id === teamId);
+	await sendToGame(
+		gameId,
+		{
+			message: "Team membership changed",
+			type: "teamUpdated",
+			gameId,
+			action,
+			playerId: player.id,
+			screenName: player.screenName,
+			team: team && toPublicTeam(team, getMembers(players, teamId)),
+		},
+		context
+	);
+}
+
+// The members' names of each of the teams, by team id, looked up per game
+export async function getMemberNames(
+	teams: Player[]
+): Promise<Record<string, string[]>> {
+	const names: Record<string, string[]> = {};
+	for (const gameId of new Set(teams.map((team) => team.gameId))) {
+		const players = await getStorage().players.listByGame(gameId);
+		for (const team of teams.filter((t) => t.gameId === gameId)) {
+			names[team.id] = getMembers(players, team.id).map(
+				(member) => member.screenName
+			);
+		}
+	}
+	return names;
+}
+
+// Marks team rows of the standings with their members' names
+export function withMembers(
+	entries: StandingsEntry[],
+	players: Player[]
+): StandingsEntry[] {
+	return entries.map((entry) => {
+		const team = players.find(
+			(player) => player.id === entry.playerId && isTeam(player)
+		);
+		return team
+			? {
+					...entry,
+					members: getMembers(players, team.id).map(
+						(member) => member.screenName
+					),
+			  }
+			: entry;
+	});
+}
+
+// Teams and players without a team ranked on their own, for games with
+// separate rankings
+export function splitStandings(entries: StandingsEntry[]) {
+	const rank = (rows: StandingsEntry[]) =>
+		rankRows(
+			rows.map(({ rank, ...row }) => row),
+			{ offset: 0 }
+		);
+	return {
+		teams: rank(entries.filter((entry) => entry.members)),
+		individuals: rank(entries.filter((entry) => !entry.members)),
+	};
+}
+
+function withTeam(player: Player, teamId: string | undefined): Player {
+	const { teamId: previousTeamId, ...rest } = player;
+	return teamId ? { ...rest, teamId } : rest;
+}
+
+// Puts the player in the team, or in none, telling the game about the team
+// they left. Membership lives on the player only and is written on its
+// _etag; after a concurrent change the player is read again and the move
+// retried. Throws PreconditionFailedError if the changes keep coming.
+export async function moveToTeam(
+	player: Player,
+	teamId: string | undefined,
+	context: InvocationContext
+): Promise<Player> {
+	const { players } = getStorage();
+	let current = player;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const updated = await players.replace(withTeam(current, teamId));
+			if (current.teamId && current.teamId !== teamId) {
+				await broadcastTeamUpdate(
+					current.gameId,
+					"left",
+					current,
+					current.teamId,
+					context
+				);
+			}
+			return updated;
+		} catch (error) {
+			if (
+				!(error instanceof PreconditionFailedError) ||
+				attempt >= MAX_JOIN_ATTEMPTS
+			) {
+				throw error;
+			}
+		}
+		current = (await players.get(player.gameId, player.id)) ?? current;
+	}
+}
+
+// Puts the player in the team if it has room and returns its members, or
+// undefined if it is full. Joins are ordered by the team record: after
+// writing their membership, a joiner rewrites the team record unchanged on
+// the condition nobody else did since they counted the members. Whoever
+// loses counts again, so the last one in always sees everyone before them.
+// Players racing for the last place can all be turned away, but a team
+// never goes over its size. The membership itself is written on the
+// player's _etag, so other changes to the player are not lost.
+export async function joinTeamIfRoom(
+	player: Player,
+	teamId: string,
+	maxMembers: number,
+	context: InvocationContext
+): Promise<Player[] | undefined> {
+	const { players } = getStorage();
+	let current = player;
+	let member: Player | undefined;
+
+	for (let attempt = 1; attempt <= MAX_JOIN_ATTEMPTS; attempt++) {
+		// Read before counting, so a join after the count changes its _etag
+		const team = await players.get(player.gameId, teamId);
+		const others = getMembers(
+			await players.listByGame(player.gameId),
+			teamId
+		).filter((p) => p.id !== player.id);
+		if (!team || others.length >= maxMembers) {
+			break;
+		}
+
+		try {
+			if (!member) {
+				member = await players.replace(withTeam(current, teamId));
+			}
+			await players.replace(team);
+		} catch (error) {
+			if (!(error instanceof PreconditionFailedError)) {
+				throw error;
+			}
+			if (!member) {
+				// The player changed, so join from the stored record
+				current =
+					(await players.get(player.gameId, player.id)) ?? current;
+			}
+			continue;
+		}
+
+		if (current.teamId) {
+			await broadcastTeamUpdate(
+				player.gameId,
+				"left",
+				current,
+				current.teamId,
+				context
+			);
+		}
+		return [...others, member];
+	}
+
+	// No room, or other changes kept getting in first
+	if (member) {
+		await leaveUnlessMoved(member, current.teamId);
+	}
+	return undefined;
+}
+
+// Puts a turned-away joiner back in their previous team, unless the player
+// has moved on since
+async function leaveUnlessMoved(member: Player, previousTeamId?: string) {
+	const { players } = getStorage();
+	let current = member;
+
+	for (let attempt = 1; attempt <= MAX_JOIN_ATTEMPTS; attempt++) {
+		if (current.teamId !== member.teamId) {
+			return;
+		}
+		try {
+			await players.replace(withTeam(current, previousTeamId));
+			return;
+		} catch (error) {
+			if (!(error instanceof PreconditionFailedError)) {
+				throw error;
+			}
+		}
+		current = await players.get(member.gameId, member.id);
+		if (!current) {
+			return;
+		}
+	}
+	throw new PreconditionFailedError();
+}
+
+// Checks that the game is played in teams and membership can still change.
+// Returns the settings, or the response to send instead.
+export function requireTeams(game: Game): {
+	settings?: TeamSettings;
+	denied?: HttpResponseInit;
+} {
+	const settings = getTeamSettings(game);
+	if (!settings) {
+		return {
+			denied: {
+				status: 409,
+				jsonBody: { error: "This game is not played in teams" },
+			},
+		};
+	}
+	const conflict = requirePhase(game, ["lobby", "prompting"], "change teams");
+	return conflict ? { denied: conflict } : { settings };
+}
@@ -0,0 +1,135 @@
+import { describeErrorKind } from "./llm";
+import { getStorage, Job, UnitStage, UnitStatus, WorkUnit } from "./storage";
+
+// A (player, question) pair of a round that a stage could work on
+export interface UnitTarget {
+	round: number;
+	playerId: string;
+	questionId: string;
+	aiAnswerId: string;
+}
+
+export function unitId(stage: UnitStage, aiAnswerId: string) {
+	return `${stage}-${aiAnswerId}`;
+}
+
+// Answers and judgements record the reason a model call failed starting
+// with describeErrorKind, so blocked content can be told apart
+export function unitStatusOf(error: string | undefined): UnitStatus {
+	if (!error) {
+		return "done";
+	}
+	return error.startsWith(describeErrorKind("contentFilter"))
+		? "filtered"
+		: "failed";
+}
+
+// A unit is settled once its result is stored, or the content filter
+// blocked it. Everything else is picked up again when a stage is re-run;
+// force picks up every target.
+export function selectUnits(
+	stage: UnitStage,
+	targets: UnitTarget[],
+	units: WorkUnit[],
+	isStored: (target: UnitTarget) => boolean,
+	force: boolean
+): UnitTarget[] {
+	if (force) {
+		return targets;
+	}
+	const byId = new Map(units.map((unit) => [unit.id, unit]));
+	return targets.filter((target) => {
+		const unit = byId.get(unitId(stage, target.aiAnswerId));
+		return !(
+			(unit?.status === "done" && isStored(target)) ||
+			unit?.status === "filtered"
+		);
+	});
+}
+
+// A running job that has not recorded progress for this long is taken to be
+// abandoned, for example after its worker died, and no longer blocks re-runs
+function getStaleJobMs() {
+	return (
+		(parseInt(process.env.JOB_STALE_MINUTES ?? "", 10) || 30) * 60 * 1000
+	);
+}
+
+function isStale(job: Job) {
+	return Date.now() - Date.parse(job.updatedAt) > getStaleJobMs();
+}
+
+// The job still working on any of the units, if there is one. A stage is
+// not started again while its last run is going, whether or not it is forced.
+export async function findRunningJob(
+	units: WorkUnit[]
+): Promise<Job | undefined> {
+	const jobIds = [
+		...new Set(
+			units
+				.filter((unit) => unit.status === "pending")
+				.map((unit) => unit.jobId)
+		),
+	];
+	for (const jobId of jobIds) {
+		const job = await getStorage().jobs.get(jobId);
+		if (job?.status === "running" && !isStale(job)) {
+			return job;
+		}
+	}
+	return undefined;
+}
+
+export function stageRunningResponse(stage: UnitStage, job: Job) {
+	return {
+		status: 409,
+		jsonBody: {
+			error: `The ${stage} of this game are still being worked on`,
+			jobId: job.id,
+			completed: job.completed,
+			failed: job.failed,
+			total: job.total,
+		},
+	};
+}
+
+// Marks the targets pending under the job that is about to queue them
+export async function markPending(
+	gameId: string,
+	stage: UnitStage,
+	targets: UnitTarget[],
+	units: WorkUnit[],
+	job: Job
+) {
+	const byId = new Map(units.map((unit) => [unit.id, unit]));
+	const now = new Date().toISOString();
+	await Promise.all(
+		targets.map((target) => {
+			const id = unitId(stage, target.aiAnswerId);
+			return getStorage().units.upsert({
+				...target,
+				id,
+				gameId,
+				stage,
+				status: "pending",
+				attempts: (byId.get(id)?.attempts ?? 0) + 1,
+				jobId: job.id,
+				updatedAt: now,
+			});
+		})
+	);
+}
+
+// Counts of a stage's units by status, for responses and progress messages
+export function countUnits(units: WorkUnit[]): Record<UnitStatus, number> {
+	const counts: Record<UnitStatus, number> = {
+		pending: 0,
+		done: 0,
+		failed: 0,
+		filtered: 0,
+	};
+	for (const unit of units) {
+		counts[unit.status]++;
+	}
+	return counts;
+}
@@ -0,0 +1,234 @@
+import { HttpResponseInit, InvocationContext } from "@azure/functions";
+import { v4 as uuid } from "uuid";
+import { TokenUsage } from "./llm";
+import { Game, getStorage, Usage, UsageEntry, UsageKind } from "./storage";
+import { sendToGame } from "./webPubSub";
+
+// US dollars per million tokens
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+	"gpt-4o": { input: 2.5, output: 10 },
+	"gpt-4o-mini": { input: 0.15, output: 0.6 },
+	"gpt-4": { input: 30, output: 60 },
+	"gpt-35-turbo": { input: 0.5, output: 1.5 },
+	"gpt-35-turbo-16k": { input: 3, output: 4 },
+	mock: { input: 0, output: 0 },
+};
+
+// LLM_PRICES is a JSON object of model name to { input, output } dollars per
+// million tokens, added to and overriding the defaults
+export function getPriceTable(): Record<string, ModelPrice> {
+	return {
+		...DEFAULT_PRICES,
+		...(process.env.LLM_PRICES ? JSON.parse(process.env.LLM_PRICES) : {}),
+	};
+}
+
+// Azure reports versioned names such as gpt-4o-2024-05-13, so the longest
+// known name the model starts with is used. Unknown models cost 0.
+function findPrice(model: string): ModelPrice | undefined {
+	const prices = getPriceTable();
+	const name = Object.keys(prices)
+		.filter((known) => model === known || model.startsWith(`${known}-`))
+		.sort((a, b) => b.length - a.length)[0];
+	return name ? prices[name] : undefined;
+}
+
+export function isPriced(model: string): boolean {
+	return !!findPrice(model);
+}
+
+// Adds one model call to the usage so far
+export function addCall(
+	usage: Usage | undefined,
+	model: string,
+	tokens: TokenUsage | undefined
+): Usage {
+	const price = findPrice(model);
+	const promptTokens = tokens?.promptTokens ?? 0;
+	const completionTokens = tokens?.completionTokens ?? 0;
+	const cost = price
+		? (promptTokens * price.input + completionTokens * price.output) /
+		  1000000
+		: 0;
+
+	return {
+		model: usage?.model ?? model,
+		calls: (usage?.calls ?? 0) + 1,
+		promptTokens: (usage?.promptTokens ?? 0) + promptTokens,
+		completionTokens: (usage?.completionTokens ?? 0) + completionTokens,
+		totalTokens: (usage?.totalTokens ?? 0) + (tokens?.totalTokens ?? 0),
+		cost: (usage?.cost ?? 0) + cost,
+	};
+}
+
+export function sumUsage(usages: (Usage | undefined)[]): Usage | undefined {
+	return usages.reduce<Usage | undefined>(
+		(total, usage) =>
+			usage
+				? {
+						model: total?.model ?? usage.model,
+						calls: (total?.calls ?? 0) + usage.calls,
+						promptTokens:
+							(total?.promptTokens ?? 0) + usage.promptTokens,
+						completionTokens:
+							(total?.completionTokens ?? 0) +
+							usage.completionTokens,
+						totalTokens:
+							(total?.totalTokens ?? 0) + usage.totalTokens,
+						cost: (total?.cost ?? 0) + usage.cost,
+				  }
+				: total,
+		undefined
+	);
+}
+
+// Adds usage to the game's ledger; nothing is written for calls that never
+// reached a model
+export async function recordUsage(
+	game: Pick<Game, "id" | "eventId">,
+	kind: UsageKind,
+	usage: Usage | undefined,
+	target: { playerId?: string; targetId?: string } = {}
+) {
+	if (!usage) {
+		return;
+	}
+	await getStorage().usage.append({
+		...usage,
+		id: uuid(),
+		gameId: game.id,
+		eventId: game.eventId,
+		playerId: target.playerId,
+		kind,
+		targetId: target.targetId,
+		at: new Date().toISOString(),
+	});
+}
+
+export interface UsageTotals {
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	cost: number;
+}
+
+function emptyTotals(): UsageTotals {
+	return {
+		calls: 0,
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+		cost: 0,
+	};
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry) {
+	totals.calls += entry.calls;
+	totals.promptTokens += entry.promptTokens;
+	totals.completionTokens += entry.completionTokens;
+	totals.totalTokens += entry.totalTokens;
+	totals.cost += entry.cost;
+}
+
+function roundCost(totals: UsageTotals): UsageTotals {
+	return { ...totals, cost: Math.round(totals.cost * 10000) / 10000 };
+}
+
+// Totals over the ledger entries, overall and grouped by the given keys
+export function rollUpUsage(
+	entries: UsageEntry[],
+	groupBy: ("gameId" | "playerId" | "kind" | "model")[]
+) {
+	const total = emptyTotals();
+	const groups: Record<string, Record<string, UsageTotals>> = {};
+	for (const key of groupBy) {
+		groups[key] = {};
+	}
+
+	for (const entry of entries) {
+		addTo(total, entry);
+		for (const key of groupBy) {
+			const value = entry[key] ?? "none";
+			groups[key][value] = groups[key][value] ?? emptyTotals();
+			addTo(groups[key][value], entry);
+		}
+	}
+
+	const rounded: Record<string, Record<string, UsageTotals>> = {};
+	for (const key of groupBy) {
+		rounded[key] = {};
+		for (const [value, totals] of Object.entries(groups[key])) {
+			rounded[key][value] = roundCost(totals);
+		}
+	}
+
+	return {
+		total: roundCost(total),
+		...rounded,
+		unpricedModels: [
+			...new Set(entries.map((entry) => entry.model)),
+		].filter((model) => !isPriced(model)),
+	};
+}
+
+// Games without a budget never run out
+async function isOverBudget(game: Pick<Game, "id" | "budget">) {
+	if (!game.budget) {
+		return false;
+	}
+	return (await getStorage().usage.totalCost(game.id)) >= game.budget.limit;
+}
+
+// Checked before every model call. Once the budget is spent the game is
+// marked and everyone is told, once; further calls are skipped.
+export async function stopIfOverBudget(
+	game: Pick<Game, "id" | "budget">,
+	context: InvocationContext
+): Promise<boolean> {
+	if (!(await isOverBudget(game))) {
+		return false;
+	}
+	if (game.budget.exceededAt) {
+		return true;
+	}
+
+	const exceededAt = new Date().toISOString();
+	await getStorage().games.update(game.id, {
+		budget: { ...game.budget, exceededAt },
+	});
+	await sendToGame(
+		game.id,
+		{
+			message: "The game's budget is used up",
+			type: "budgetExceeded",
+			gameId: game.id,
+			budget: game.budget.limit,
+			at: exceededAt,
+		},
+		context
+	);
+	return true;
+}
+
+// For routes that start model calls: 402 once the budget is spent
+export async function requireBudget(
+	game: Pick<Game, "id" | "budget">,
+	context: InvocationContext
+): Promise<HttpResponseInit | undefined> {
+	if (!(await stopIfOverBudget(game, context))) {
+		return undefined;
+	}
+	return {
+		status: 402,
+		jsonBody: {
+			error: `This game has used its budget of $${game.budget.limit}`,
+			budget: game.budget.limit,
+		},
+	};
+}
@@ -0,0 +1,32 @@
+import { InvocationContext } from "@azure/functions";
+import { JSONTypes, WebPubSubServiceClient } from "@azure/web-pubsub";
+
+export const HUB_NAME = "miniHackathon";
+
+export function getServiceClient(): WebPubSubServiceClient {
+	if (!process.env.WEB_PUBSUB_CONNECTION_STRING) {
+		throw new Error("WEB_PUBSUB_CONNECTION_STRING is not set");
+	}
+
+	return new WebPubSubServiceClient(
+		process.env.WEB_PUBSUB_CONNECTION_STRING,
+		HUB_NAME
+	);
+}
+
+// Broadcast a message to everyone connected to a game's group.
+// Failures are logged and swallowed so a PubSub outage never fails the request.
+export async function sendToGame(
+	gameId: string,
+	message: JSONTypes,
+	context: InvocationContext
+) {
+	try {
+		const groupClient = getServiceClient().group(gameId);
+		await groupClient.sendToAll(message);
+
+		context.log("Web PubSub message sent successfully");
+	} catch (error) {
+		context.error("Failed to send Web PubSub message:", error);
+	}
+}
@@ -0,0 +1,175 @@
+import { bodyOf, captureJobs, createContext, createRequest } from "./helpers";
+import assert from "node:assert/strict";
+import { before, describe, it, mock } from "node:test";
+import { appealJudgement } from "../src/functions/appealJudgement";
+import { createJudge } from "../src/functions/createJudge";
+import { createNewGame } from "../src/functions/createNewGame";
+import { generateAnswers } from "../src/functions/generateAnswers";
+import { generateJudgements } from "../src/functions/generateJudgements";
+import { playerReg } from "../src/functions/playerReg";
+import { recoverPlayer } from "../src/functions/recoverPlayer";
+import { resolveAppeal } from "../src/functions/resolveAppeal";
+import { submitPrompt } from "../src/functions/submitPrompt";
+import { failWorkItem } from "../src/lib/jobs";
+import { getStorage, PreconditionFailedError } from "../src/lib/storage";
+
+const jobs = captureJobs();
+const context = createContext();
+
+// A game with one player whose answers have been judged
+async function playRound() {
+	const game = bodyOf(
+		await createNewGame(createRequest("createNewGame?rounds=2"), context)
+	);
+	const registration = bodyOf(
+		await playerReg(
+			createRequest("playerReg", {
+				gameId: game.id,
+				screenName: "Ada",
+				email: `${game.id}@example.com`,
+			}),
+			context
+		)
+	);
+	const auth = { authorization: `Bearer ${registration.token}` };
+
+	await getStorage().games.update(game.id, { status: "prompting" });
+	await submitPrompt(
+		createRequest("submitPrompt", { prompt: "Answer like a pirate" }, auth),
+		context
+	);
+	await generateAnswers(
+		createRequest(`generateAnswers?gameId=${game.id}`),
+		context
+	);
+	await jobs.drain(context);
+	await generateJudgements(
+		createRequest(`generateJudgements?gameId=${game.id}`),
+		context
+	);
+	await jobs.drain(context);
+
+	const { judgements } = await getStorage().games.get(game.id);
+	return {
+		gameId: game.id,
+		auth,
+		registration,
+		judgementId: judgements[0].id,
+	};
+}
+
+async function appealAndReevaluate(
+	round: Awaited<ReturnType<typeof playRound>>
+) {
+	const appeal = await appealJudgement(
+		createRequest(
+			"appealJudgement",
+			{ judgementId: round.judgementId, reason: "Too harsh" },
+			round.auth
+		),
+		context
+	);
+	assert.equal(appeal.status, 202);
+
+	const resolved = await resolveAppeal(
+		createRequest("resolveAppeal", {
+			gameId: round.gameId,
+			judgementId: round.judgementId,
+			decision: "reevaluate",
+		}),
+		context
+	);
+	assert.equal(resolved.status, 200);
+	assert.equal(jobs.items.length, 1);
+}
+
+async function getAppeal(round: Awaited<ReturnType<typeof playRound>>) {
+	const { judgements } = await getStorage().games.get(round.gameId);
+	return judgements.find((j) => j.id === round.judgementId).appeal;
+}
+
+describe("appeals", () => {
+	before(async () => {
+		await createJudge(
+			createRequest("createJudge", {
+				id: "test-judge",
+				theme: "Testing",
+				instructions: "Be fair",
+				questions: [{ content: "What is a unit test?" }],
+			}),
+			context
+		);
+	});
+
+	it("resolves an appeal once the answer is judged again", async () => {
+		const round = await playRound();
+		await appealAndReevaluate(round);
+
+		await jobs.drain(context);
+		const appeal = await getAppeal(round);
+		assert.equal(appeal.status, "resolved");
+		assert.match(appeal.resolution, /^Re-evaluated/);
+	});
+
+	it("returns the appeal to the host when the judgements changed meanwhile", async () => {
+		const round = await playRound();
+		await appealAndReevaluate(round);
+
+		const { games } = getStorage();
+		mock.method(
+			games,
+			"replaceListItem",
+			async () => {
+				throw new PreconditionFailedError();
+			},
+			{ times: 1 }
+		);
+		await jobs.drain(context);
+		mock.restoreAll();
+
+		const appeal = await getAppeal(round);
+		assert.equal(appeal.status, "pending");
+		assert.equal(
+			appeal.resolution,
+			"Re-evaluation failed: The judgements changed while re-evaluating"
+		);
+	});
+
+	it("returns the appeal to the host when the queue gives up on it", async () => {
+		const round = await playRound();
+		await appealAndReevaluate(round);
+
+		await failWorkItem(
+			jobs.items.shift(),
+			"Processing failed repeatedly",
+			context
+		);
+
+		const appeal = await getAppeal(round);
+		assert.equal(appeal.status, "pending");
+		assert.equal(
+			appeal.resolution,
+			"Re-evaluation failed: Processing failed repeatedly"
+		);
+	});
+
+	it("limits recovery attempts per game and email", async () => {
+		const round = await playRound();
+		const recover = (code: string) =>
+			recoverPlayer(
+				createRequest("recoverPlayer", {
+					gameId: round.gameId,
+					email: `${round.gameId}@example.com`,
+					code,
+				}),
+				context
+			);
+
+		const statuses = [];
+		for (let i = 0; i < 5; i++) {
+			statuses.push((await recover("wrong")).status);
+		}
+		statuses.push((await recover(round.registration.recoveryCode)).status);
+		assert.deepEqual(statuses, [401, 401, 401, 401, 401, 429]);
+	});
+});
@@ -0,0 +1,9 @@
+// Imported before anything from src, so every module sees the test settings:
+// memory storage, the mock model and no host sign-in
+Object.assign(process.env, {
+	STORAGE_BACKEND: "memory",
+	LLM_PROVIDER: "mock",
+	LLM_MAX_RETRIES: "0",
+	AUTH_TOKEN_SECRET: "test-secret",
+	AUTH_DISABLED: "true",
+});
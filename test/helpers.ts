@@ -0,0 +1,47 @@
+import "./env";
+import { HttpRequest, InvocationContext } from "@azure/functions";
+import { processWorkItem, setJobQueue, WorkItem } from "../src/lib/jobs";
+
+export function createContext() {
+	return new InvocationContext({ logHandler: () => undefined });
+}
+
+export function createRequest(
+	url: string,
+	body?: unknown,
+	headers: Record<string, string> = {}
+) {
+	return new HttpRequest({
+		method: body === undefined ? "GET" : "POST",
+		url: `http://localhost/api/${url}`,
+		body: body === undefined ? undefined : { string: JSON.stringify(body) },
+		headers,
+	});
+}
+
+export function bodyOf(response: { jsonBody?: unknown; body?: unknown }) {
+	// Some handlers still send JSON as a string body
+	return (response.jsonBody ?? JSON.parse(response.body as string)) as Record<
+		string,
+		any
+	>;
+}
+
+// Keeps queued work items until the test delivers them
+export function captureJobs() {
+	const items: WorkItem[] = [];
+	setJobQueue({
+		enqueue: async (queued) => {
+			items.push(...queued);
+		},
+	});
+
+	return {
+		items,
+		async drain(context = createContext()) {
+			while (items.length) {
+				await processWorkItem(items.shift(), context);
+			}
+		},
+	};
+}
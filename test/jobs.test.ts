@@ -0,0 +1,114 @@
+import { createContext } from "./helpers";
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { v4 as uuid } from "uuid";
+import { failWorkItem, processWorkItem, WorkItem } from "../src/lib/jobs";
+import { getStorage } from "../src/lib/storage";
+import * as webPubSub from "../src/lib/webPubSub";
+
+// Answer items for a game that doesn't exist fail straight away, which is
+// all the counting needs
+async function createJob(total: number) {
+	const gameId = uuid();
+	const now = new Date().toISOString();
+	const job = await getStorage().jobs.create({
+		id: uuid(),
+		gameId,
+		type: "answers",
+		status: "running",
+		total,
+		completed: 0,
+		failed: 0,
+		createdAt: now,
+		updatedAt: now,
+	});
+	const items: WorkItem[] = Array.from({ length: total }, (_, i) => ({
+		jobId: job.id,
+		gameId,
+		type: "answers",
+		playerId: `player-${i}`,
+		questionId: "q1",
+		round: 1,
+	}));
+	return { job, items };
+}
+
+describe("job progress", () => {
+	let sent: { type?: string }[];
+
+	beforeEach(() => {
+		sent = [];
+		mock.method(webPubSub, "sendToGame", async (_gameId, message) => {
+			sent.push(message);
+		});
+	});
+
+	afterEach(() => {
+		mock.restoreAll();
+	});
+
+	const completions = () =>
+		sent.filter((message) => message.type === "jobCompleted").length;
+
+	it("counts a redelivered item once", async () => {
+		const { job, items } = await createJob(2);
+		const context = createContext();
+
+		await processWorkItem(items[0], context);
+		await processWorkItem(items[0], context);
+		assert.equal((await getStorage().jobs.get(job.id)).status, "running");
+
+		await processWorkItem(items[1], context);
+		const finished = await getStorage().jobs.get(job.id);
+		assert.equal(finished.failed, 2);
+		assert.equal(finished.status, "completed");
+		assert.equal(completions(), 1);
+	});
+
+	it("finishes the job once however often the last item is delivered", async () => {
+		const { job, items } = await createJob(1);
+		const context = createContext();
+
+		await processWorkItem(items[0], context);
+		await processWorkItem(items[0], context);
+		await failWorkItem(items[0], "Processing failed repeatedly", context);
+
+		const finished = await getStorage().jobs.get(job.id);
+		assert.equal(finished.failed, 1);
+		assert.equal(completions(), 1);
+	});
+
+	it("lets a redelivery finish a job whose last delivery failed after counting", async () => {
+		const { job, items } = await createJob(1);
+		const context = createContext();
+		mock.method(
+			webPubSub,
+			"sendToGame",
+			async () => {
+				throw new Error("Web PubSub is down");
+			},
+			{ times: 1 }
+		);
+
+		await assert.rejects(processWorkItem(items[0], context));
+		assert.equal((await getStorage().jobs.get(job.id)).status, "running");
+
+		await processWorkItem(items[0], context);
+		const finished = await getStorage().jobs.get(job.id);
+		assert.equal(finished.failed, 1);
+		assert.equal(finished.status, "completed");
+		assert.equal(completions(), 1);
+	});
+
+	it("doesn't count an item the queue gave up on after it finished", async () => {
+		const { job, items } = await createJob(2);
+		const context = createContext();
+
+		await processWorkItem(items[0], context);
+		await failWorkItem(items[0], "Processing failed repeatedly", context);
+
+		const running = await getStorage().jobs.get(job.id);
+		assert.equal(running.failed, 1);
+		assert.equal(running.status, "running");
+	});
+});
@@ -0,0 +1,29 @@
+import "./helpers";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { MockProvider } from "../src/lib/llm/mock";
+import { Judge } from "../src/lib/storage";
+
+describe("mock provider", () => {
+	const judge = { id: "judge-1", theme: "Testing", questions: [] } as Judge;
+	const request = { judge, question: "What is a test?", answer: "A check." };
+
+	it("scores each sample of a panel judge on its own", async () => {
+		const provider = new MockProvider();
+		const replies = await Promise.all(
+			[1, 2, 3, 4].map((sample) =>
+				provider.evaluate({ ...request, temperature: 0.7, sample })
+			)
+		);
+
+		assert.ok(new Set(replies.map((reply) => reply.content)).size > 1);
+	});
+
+	it("scores the first sample like a single judgement", async () => {
+		const provider = new MockProvider();
+		const single = await provider.evaluate(request);
+		const first = await provider.evaluate({ ...request, sample: 1 });
+
+		assert.equal(first.content, single.content);
+	});
+});
@@ -0,0 +1,33 @@
+import "./helpers";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findPromptViolations } from "../src/lib/promptRules";
+
+const violatesLanguage = (prompt: string, language: string) =>
+	findPromptViolations(prompt, { language }).some(
+		(violation) => violation.rule === "language"
+	);
+
+describe("prompt language", () => {
+	it("checks prompts in scripts without spaces", () => {
+		const chinese = "你是一位友好的海盗船长请用简单的话回答每个问题";
+		assert.equal(violatesLanguage(chinese, "zh"), false);
+		assert.equal(violatesLanguage(chinese, "ru"), true);
+
+		const japanese =
+			"あなたは親切な海賊の船長です。簡単な言葉で答えてください。";
+		assert.equal(violatesLanguage(japanese, "ja"), false);
+		assert.equal(violatesLanguage(japanese, "en"), true);
+	});
+
+	it("tells Latin languages apart by their common words", () => {
+		const english =
+			"You are a friendly pirate and you answer the questions with a smile";
+		assert.equal(violatesLanguage(english, "en"), false);
+		assert.equal(violatesLanguage(english, "fr"), true);
+	});
+
+	it("lets very short prompts through", () => {
+		assert.equal(violatesLanguage("Be a pirate", "ja"), false);
+	});
+});
@@ -0,0 +1,53 @@
+import "./helpers";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { v4 as uuid } from "uuid";
+import { consumeLimit, releaseLimit } from "../src/lib/rateLimit";
+
+describe("rate limits", () => {
+	it("allows requests up to the limit", async () => {
+		const key = uuid();
+
+		const results = [];
+		for (let i = 0; i < 4; i++) {
+			results.push(await consumeLimit(key, 3));
+		}
+
+		assert.deepEqual(
+			results.map((result) => [result.allowed, result.remaining]),
+			[
+				[true, 2],
+				[true, 1],
+				[true, 0],
+				[false, 0],
+			]
+		);
+	});
+
+	it("doesn't count requests that were turned away", async () => {
+		const key = uuid();
+
+		assert.equal((await consumeLimit(key, 5, 4)).allowed, true);
+		assert.equal((await consumeLimit(key, 5, 4)).allowed, false);
+		const last = await consumeLimit(key, 5, 1);
+		assert.equal(last.allowed, true);
+		assert.equal(last.remaining, 0);
+	});
+
+	it("gives back what was counted", async () => {
+		const key = uuid();
+
+		const first = await consumeLimit(key, 1);
+		assert.equal((await consumeLimit(key, 1)).allowed, false);
+		await releaseLimit(first);
+		assert.equal((await consumeLimit(key, 1)).allowed, true);
+	});
+
+	it("starts again in the next window", async () => {
+		const result = await consumeLimit(uuid(), 1, 1, 60);
+
+		assert.ok(Date.parse(result.resetAt) > Date.now());
+		assert.ok(Date.parse(result.resetAt) <= Date.now() + 60 * 1000);
+		assert.equal(Date.parse(result.resetAt) % (60 * 1000), 0);
+	});
+});
@@ -0,0 +1,220 @@
+import "./helpers";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+	createCosmosStorage,
+	createMemoryStorage,
+	Game,
+	Judgement,
+	PreconditionFailedError,
+} from "../src/lib/storage";
+
+function createGame(id: string, status: Game["status"] = "prompting") {
+	return { id, status, players: [] } as Game;
+}
+
+describe("memory storage", () => {
+	it("updates a game only while it has the expected status", async () => {
+		const { games } = createMemoryStorage();
+		await games.upsert(createGame("g1"));
+
+		await assert.rejects(
+			games.update("g1", { currentRound: 2 }, { ifStatus: "lobby" }),
+			PreconditionFailedError
+		);
+		await games.update(
+			"g1",
+			{ currentRound: 3 },
+			{ ifStatus: "prompting" }
+		);
+		assert.equal((await games.get("g1")).currentRound, 3);
+	});
+
+	it("completes a job only while it is running", async () => {
+		const { jobs } = createMemoryStorage();
+		const now = new Date().toISOString();
+		await jobs.create({
+			id: "j1",
+			gameId: "g1",
+			type: "answers",
+			status: "running",
+			total: 1,
+			completed: 1,
+			failed: 0,
+			createdAt: now,
+			updatedAt: now,
+		});
+
+		await jobs.update(
+			"j1",
+			{ status: "completed" },
+			{ ifStatus: "running" }
+		);
+		await assert.rejects(
+			jobs.update("j1", { status: "completed" }, { ifStatus: "running" }),
+			PreconditionFailedError
+		);
+	});
+
+	it("leaves out list items that are already there", async () => {
+		const { games } = createMemoryStorage();
+		await games.upsert(createGame("g1"));
+		const player = {
+			id: "p1",
+			gameId: "g1",
+			screenName: "A",
+			email: "a@x",
+		};
+
+		await games.append("g1", "players", player);
+		await games.append("g1", "players", player);
+		await games.append("g1", "playerIds", "p1");
+		await games.append("g1", "playerIds", "p1");
+		await games.append("g1", "playerIds", "p2");
+
+		const game = await games.get("g1");
+		assert.deepEqual(
+			game.players.map((p) => p.id),
+			["p1"]
+		);
+		assert.deepEqual(game.playerIds, ["p1", "p2"]);
+	});
+
+	it("replaces a list item only if it is still at its index", async () => {
+		const { games } = createMemoryStorage();
+		await games.upsert(createGame("g1"));
+		const judgement = { id: "j1", totalScore: 3 } as Judgement;
+		await games.append("g1", "judgements", judgement);
+
+		await assert.rejects(
+			games.replaceListItem("g1", "judgements", 1, judgement),
+			PreconditionFailedError
+		);
+		await games.replaceListItem("g1", "judgements", 0, {
+			...judgement,
+			totalScore: 5,
+		});
+		assert.equal((await games.get("g1")).judgements[0].totalScore, 5);
+	});
+
+	it("pages through tied scores in id order", async () => {
+		const { players } = createMemoryStorage();
+		for (const id of ["c", "a", "d", "b"]) {
+			await players.upsert({
+				id,
+				gameId: "g1",
+				screenName: id,
+				email: `${id}@x`,
+				totalScore: id === "d" ? 20 : 10,
+			});
+		}
+
+		const first = await players.listTopScores({ gameId: "g1", limit: 2 });
+		const second = await players.listTopScores({
+			gameId: "g1",
+			offset: 2,
+			limit: 2,
+		});
+		assert.deepEqual(
+			[...first, ...second].map((p) => p.id),
+			["d", "a", "b", "c"]
+		);
+	});
+
+	it("replaces a player only if nobody wrote it since it was read", async () => {
+		const { players } = createMemoryStorage();
+		const read = await players.upsert({
+			id: "p1",
+			gameId: "g1",
+			screenName: "A",
+			email: "a@x",
+		});
+
+		const written = await players.replace({ ...read, screenName: "B" });
+		await assert.rejects(
+			players.replace({ ...read, screenName: "C" }),
+			PreconditionFailedError
+		);
+		await players.replace({ ...written, screenName: "D" });
+		assert.equal((await players.get("g1", "p1")).screenName, "D");
+	});
+});
+
+// Only the requests sent to Cosmos are checked; nothing is connected to
+describe("Cosmos storage", () => {
+	type PatchBody = { condition?: string; operations: unknown[] };
+
+	function createGames(respond: (body: PatchBody) => void = () => undefined) {
+		const patches: PatchBody[] = [];
+		const { games } = createCosmosStorage(
+			"AccountEndpoint=https://localhost:8081/;AccountKey=dGVzdA==;",
+			"test"
+		);
+		Object.assign(games, {
+			container: {
+				item: () => ({
+					patch: async (body: PatchBody) => {
+						patches.push(body);
+						respond(body);
+						return {};
+					},
+				}),
+			},
+		});
+		return { games, patches };
+	}
+
+	it("sends the status condition with the update", async () => {
+		const { games, patches } = createGames();
+		await games.update(
+			"g1",
+			{ currentRound: 2 },
+			{ ifStatus: "prompting" }
+		);
+		assert.equal(
+			patches[0].condition,
+			"FROM c WHERE c.status = 'prompting'"
+		);
+	});
+
+	it("turns a failed condition into PreconditionFailedError", async () => {
+		const { games } = createGames(() => {
+			throw Object.assign(new Error("Precondition failed"), {
+				code: 412,
+			});
+		});
+		await assert.rejects(
+			games.update("g1", { currentRound: 2 }, { ifStatus: "prompting" }),
+			PreconditionFailedError
+		);
+	});
+
+	it("refuses a conditional update too big for one request", async () => {
+		const { games, patches } = createGames();
+		const changes = Object.fromEntries(
+			Array.from({ length: 11 }, (_, i) => [`field${i}`, i])
+		);
+
+		await assert.rejects(
+			games.update("g1", changes, { ifStatus: "prompting" })
+		);
+		assert.equal(patches.length, 0);
+
+		await games.update("g1", changes);
+		assert.equal(patches.length, 2);
+	});
+
+	it("appends a player id only if it is not in the list", async () => {
+		const { games, patches } = createGames(() => {
+			throw Object.assign(new Error("Precondition failed"), {
+				code: 412,
+			});
+		});
+
+		await games.append("g1", "playerIds", "p1");
+		assert.equal(
+			patches[0].condition,
+			'FROM c WHERE NOT IS_DEFINED(c.playerIds) OR NOT ARRAY_CONTAINS(c.playerIds, "p1")'
+		);
+	});
+});